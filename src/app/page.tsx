@@ -1,18 +1,35 @@
 
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { DepthWeaverScene, type DepthWeaverSceneHandle } from '@/components/depth-weaver-scene';
 import { FileUploader } from '@/components/file-uploader';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Settings, Download, Loader2, Video } from 'lucide-react';
+import { ArrowLeft, Settings, Download, Loader2, Video, Glasses, Brush } from 'lucide-react';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
 import { Switch } from "@/components/ui/switch"
 import { HistoryList, type HistoryEntry } from '@/components/history';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { addHistory, getHistory, deleteHistory, type HistoryDbEntry } from '@/lib/db';
+import type { HistoryEntryChanges } from '@/components/history-entry-dialog';
+import {
+  addAlbum,
+  addHistory,
+  countHistory,
+  deleteAlbum,
+  deleteHistory,
+  getAlbums,
+  getHistoryPage,
+  getHistoryTags,
+  updateHistory,
+  type AlbumDbEntry,
+  type HistoryCursor,
+  type HistoryDbEntry,
+} from '@/lib/db';
+import { matchesHistoryFilter, type DepthSource, type HistoryFilter } from '@/lib/library';
+import { createThumbnail } from '@/lib/thumbnail';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
 import {
   Dialog,
@@ -22,14 +39,6 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog"
 import {
   Sheet,
   SheetContent,
@@ -38,40 +47,100 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet"
 import { useToast } from '@/hooks/use-toast';
+import type { ExportFormat } from '@/lib/mesh-export';
+import { DEFAULT_RECORDING_OPTIONS, type RecordingOptions } from '@/lib/camera-paths';
+import { RecordingSettings } from '@/components/recording-settings';
+import { QuiltSettings } from '@/components/quilt-settings';
+import { DEFAULT_QUILT_OPTIONS, type QuiltOptions } from '@/lib/quilt';
+import { DEFAULT_VIDEO_OUTPUT, type VideoOutputOptions } from '@/lib/video-encoder';
+import { DEFAULT_ANIMATED_IMAGE_OPTIONS, type AnimatedImageOptions } from '@/lib/animated-image';
+import { isImmersiveVRSupported } from '@/lib/webxr';
+import { DepthEditor } from '@/components/depth-editor';
+import { PresetPicker } from '@/components/preset-picker';
+import { LibraryBackup } from '@/components/library-backup';
+import type { PresetSettings } from '@/lib/presets';
+import { stereoModes, type StereoExportFormat, type StereoMode, type StereoOptions } from '@/lib/stereo';
+import {
+  DEFAULT_SCENE_SETTINGS,
+  parseSceneSettings,
+  toStoredSceneSettings,
+  type BackgroundMode,
+  type CameraType,
+  type RenderMode,
+  type SceneSettings,
+} from '@/lib/scene-settings';
 
-type RenderMode = 'blur' | 'fill';
-type CameraType = 'perspective' | 'orthographic';
+type SceneExportFormat = ExportFormat | 'depth-jpeg';
+
+const exportFormats: { value: SceneExportFormat; label: string; description: string }[] = [
+  { value: 'glb', label: 'GLB', description: '带贴图的单文件模型，适用于办公演示软件、设计工具及三维建模软件' },
+  { value: 'obj', label: 'OBJ', description: 'OBJ + MTL + PNG贴图的压缩包，兼容绝大多数三维软件' },
+  { value: 'ply', label: 'PLY', description: '带顶点颜色的点云，适用于点云处理工具' },
+  { value: 'stl', label: 'STL', description: '带底座的封闭浮雕实体，可直接用于3D打印' },
+  { value: 'depth-jpeg', label: '3D照片', description: '在元数据中嵌入深度图的JPEG照片，可在支持人像景深的相册中打开，也能重新导入本应用' },
+];
+
+// Scene settings are written to the open history entry this long after the last change.
+const SETTINGS_SAVE_DELAY = 500;
+const HISTORY_PAGE_SIZE = 24;
 
 export default function HomePage() {
   const [image, setImage] = useState<string | null>(null);
   const [depthMap, setDepthMap] = useState<string | null>(null);
+  const [mask, setMask] = useState<string | null>(null);
   const [key, setKey] = useState(Date.now());
-  const [depthMultiplier, setDepthMultiplier] = useState(0.7);
-  const [cameraDistance, setCameraDistance] = useState(2);
-  const [orthographicZoom, setOrthographicZoom] = useState(1);
-  const [meshDetail, setMeshDetail] = useState(1024);
-  const [blurIntensity, setBlurIntensity] = useState(5);
-  const [blurOffset, setBlurOffset] = useState(1);
-  const [viewAngleLimit, setViewAngleLimit] = useState(10);
+  const [depthMultiplier, setDepthMultiplier] = useState(DEFAULT_SCENE_SETTINGS.depthMultiplier);
+  const [cameraDistance, setCameraDistance] = useState(DEFAULT_SCENE_SETTINGS.cameraDistance);
+  const [orthographicZoom, setOrthographicZoom] = useState(DEFAULT_SCENE_SETTINGS.orthographicZoom);
+  const [meshDetail, setMeshDetail] = useState(DEFAULT_SCENE_SETTINGS.meshDetail);
+  const [adaptiveMesh, setAdaptiveMesh] = useState(DEFAULT_SCENE_SETTINGS.adaptiveMesh);
+  const [triangleBudget, setTriangleBudget] = useState(DEFAULT_SCENE_SETTINGS.triangleBudget);
+  const [blurIntensity, setBlurIntensity] = useState(DEFAULT_SCENE_SETTINGS.blurIntensity);
+  const [blurOffset, setBlurOffset] = useState(DEFAULT_SCENE_SETTINGS.blurOffset);
+  const [viewAngleLimit, setViewAngleLimit] = useState(DEFAULT_SCENE_SETTINGS.viewAngleLimit);
   const [useSensor, setUseSensor] = useState(false);
   const [sensorSupported, setSensorSupported] = useState(true);
   const [history, setHistory] = useState<HistoryDbEntry[]>([]);
-  const [backgroundMode, setBackgroundMode] = useState<'blur' | 'solid'>('blur');
-  const [backgroundColor, setBackgroundColor] = useState('#000000');
+  const [historyCursor, setHistoryCursor] = useState<HistoryCursor | null>(null);
+  const [historyCount, setHistoryCount] = useState(0);
+  const [historyMatchCount, setHistoryMatchCount] = useState(0);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>({});
+  const [albums, setAlbums] = useState<AlbumDbEntry[]>([]);
+  const [historyTags, setHistoryTags] = useState<string[]>([]);
+  // Held apart from `history`, which only has the loaded pages that match the filter.
+  const [currentEntry, setCurrentEntry] = useState<HistoryDbEntry | null>(null);
+  const [isDepthEditorOpen, setIsDepthEditorOpen] = useState(false);
+  const [backgroundMode, setBackgroundMode] = useState<BackgroundMode>(DEFAULT_SCENE_SETTINGS.backgroundMode);
+  const [backgroundColor, setBackgroundColor] = useState(DEFAULT_SCENE_SETTINGS.backgroundColor);
   const [containerHeight, setContainerHeight] = useState<string | number>('100vh');
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [renderMode, setRenderMode] = useState<RenderMode>('blur');
-  const [selectionRange, setSelectionRange] = useState(10);
-  const [cameraType, setCameraType] = useState<CameraType>('perspective');
+  const [renderMode, setRenderMode] = useState<RenderMode>(DEFAULT_SCENE_SETTINGS.renderMode);
+  const [selectionRange, setSelectionRange] = useState(DEFAULT_SCENE_SETTINGS.selectionRange);
+  const [cameraType, setCameraType] = useState<CameraType>(DEFAULT_SCENE_SETTINGS.cameraType);
+  const [layeredMesh, setLayeredMesh] = useState(DEFAULT_SCENE_SETTINGS.layeredMesh);
+  const [popOut, setPopOut] = useState(DEFAULT_SCENE_SETTINGS.popOut);
+  const [stereo, setStereo] = useState<StereoOptions>(DEFAULT_SCENE_SETTINGS.stereo);
+  const [vrSupported, setVrSupported] = useState(false);
+  const [isQuiltDialogOpen, setIsQuiltDialogOpen] = useState(false);
+  const [quiltOptions, setQuiltOptions] = useState<QuiltOptions>(DEFAULT_QUILT_OPTIONS);
+  const [quiltProgress, setQuiltProgress] = useState<number | null>(null);
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<SceneExportFormat>('glb');
   const [isRecording, setIsRecording] = useState(false);
-  const [isFillWarningOpen, setIsFillWarningOpen] = useState(false);
+  const [isRecordDialogOpen, setIsRecordDialogOpen] = useState(false);
+  const [recordingOptions, setRecordingOptions] = useState<RecordingOptions>(DEFAULT_RECORDING_OPTIONS);
+  const [videoOutput, setVideoOutput] = useState<VideoOutputOptions>(DEFAULT_VIDEO_OUTPUT);
+  const [animatedImageOptions, setAnimatedImageOptions] = useState<AnimatedImageOptions>(DEFAULT_ANIMATED_IMAGE_OPTIONS);
+  const [renderProgress, setRenderProgress] = useState<number | null>(null);
   const [scrollAreaKey, setScrollAreaKey] = useState(Date.now());
   const sceneRef = useRef<DepthWeaverSceneHandle>(null);
   const { toast } = useToast();
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const scrollPositionRef = useRef(0);
+  // Filters change while pages are loading; only the latest request may fill the list.
+  const historyRequestRef = useRef(0);
 
   useEffect(() => {
     if (scrollAreaRef.current) {
@@ -79,20 +148,81 @@ export default function HomePage() {
     }
   }, [scrollAreaKey]);
 
+  // Entries saved before thumbnails existed get one the first time they are listed.
+  const addMissingThumbnails = async (entries: HistoryDbEntry[]) => {
+    for (const entry of entries) {
+      if (entry.thumbnail) continue;
+      try {
+        const thumbnail = await createThumbnail(entry.image);
+        await updateHistory(entry.id, { thumbnail });
+        setHistory(prev => prev.map(item => item.id === entry.id ? { ...item, thumbnail } : item));
+      } catch (error) {
+        console.error("Failed to create history thumbnail", error);
+      }
+    }
+  };
+
+  const loadLibraryLabels = useCallback(async () => {
+    try {
+      const [albums, tags] = await Promise.all([getAlbums(), getHistoryTags()]);
+      setAlbums(albums);
+      setHistoryTags(tags);
+    } catch (error) {
+      console.error("Failed to load albums and tags from IndexedDB", error);
+    }
+  }, []);
+
+  /** Loads the page after `cursor`, or reloads the list from the top when it is null. */
+  const loadHistoryPage = useCallback(async (cursor: HistoryCursor | null) => {
+    const request = ++historyRequestRef.current;
+    setIsLoadingHistory(true);
+    try {
+      const [page, count] = await Promise.all([getHistoryPage(cursor, HISTORY_PAGE_SIZE, historyFilter), countHistory()]);
+      // Matches are counted with the first page; when it holds them all, it gives the count itself.
+      const matchCount = cursor ? null : page.nextCursor ? await countHistory(historyFilter) : page.entries.length;
+      if (request !== historyRequestRef.current) return;
+      setHistory(prev => cursor ? [...prev, ...page.entries] : page.entries);
+      setHistoryCursor(page.nextCursor);
+      if (matchCount !== null) setHistoryMatchCount(matchCount);
+      setHistoryCount(count);
+      addMissingThumbnails(page.entries);
+    } catch (error) {
+      console.error("Failed to load history from IndexedDB", error);
+    } finally {
+      if (request === historyRequestRef.current) setIsLoadingHistory(false);
+    }
+  }, [historyFilter]);
+
+  const handleLoadMoreHistory = useCallback(() => {
+    if (historyCursor) loadHistoryPage(historyCursor);
+  }, [historyCursor, loadHistoryPage]);
+
+  const reloadHistory = useCallback(() => {
+    loadHistoryPage(null);
+    loadLibraryLabels();
+  }, [loadHistoryPage, loadLibraryLabels]);
+
+  // A cursor from the previous filter would page through the wrong index, so it goes first.
+  const handleHistoryFilterChange = useCallback((filter: HistoryFilter) => {
+    setHistoryCursor(null);
+    setHistoryFilter(filter);
+  }, []);
+
+  // Runs on mount and again whenever the filter changes.
+  useEffect(() => {
+    loadHistoryPage(null);
+  }, [loadHistoryPage]);
+
+  useEffect(() => {
+    loadLibraryLabels();
+  }, [loadLibraryLabels]);
+
   useEffect(() => {
     if (typeof window.DeviceOrientationEvent === 'undefined') {
       setSensorSupported(false);
     }
     
-    const loadHistory = async () => {
-      try {
-        const storedHistory = await getHistory();
-        setHistory(storedHistory);
-      } catch (error) {
-        console.error("Failed to load history from IndexedDB", error);
-      }
-    };
-    loadHistory();
+    isImmersiveVRSupported().then(setVrSupported);
 
     const handleResize = () => {
       setContainerHeight(window.innerHeight);
@@ -106,17 +236,86 @@ export default function HomePage() {
     };
   }, []);
 
-  const handleFilesChange = async (imageFile: File, depthMapFile: File) => {
+  const sceneSettings = useMemo<SceneSettings>(() => ({
+    depthMultiplier,
+    cameraType,
+    cameraDistance,
+    orthographicZoom,
+    meshDetail,
+    adaptiveMesh,
+    triangleBudget,
+    layeredMesh,
+    popOut,
+    renderMode,
+    selectionRange,
+    blurIntensity,
+    blurOffset,
+    viewAngleLimit,
+    backgroundMode,
+    backgroundColor,
+    stereo,
+  }), [
+    depthMultiplier, cameraType, cameraDistance, orthographicZoom, meshDetail, adaptiveMesh, triangleBudget, layeredMesh,
+    popOut, renderMode, selectionRange, blurIntensity, blurOffset, viewAngleLimit, backgroundMode, backgroundColor, stereo,
+  ]);
+
+  const applySceneSettings = (settings: SceneSettings) => {
+    setDepthMultiplier(settings.depthMultiplier);
+    setCameraType(settings.cameraType);
+    setCameraDistance(settings.cameraDistance);
+    setOrthographicZoom(settings.orthographicZoom);
+    setMeshDetail(settings.meshDetail);
+    setAdaptiveMesh(settings.adaptiveMesh);
+    setTriangleBudget(settings.triangleBudget);
+    setLayeredMesh(settings.layeredMesh);
+    setPopOut(settings.popOut);
+    setRenderMode(settings.renderMode);
+    setSelectionRange(settings.selectionRange);
+    setBlurIntensity(settings.blurIntensity);
+    setBlurOffset(settings.blurOffset);
+    setViewAngleLimit(settings.viewAngleLimit);
+    setBackgroundMode(settings.backgroundMode);
+    setBackgroundColor(settings.backgroundColor);
+    setStereo(settings.stereo);
+  };
+
+  const handleApplyPreset = (preset: PresetSettings) => {
+    if (scrollAreaRef.current) {
+      scrollPositionRef.current = scrollAreaRef.current.scrollTop;
+    }
+    applySceneSettings({ ...sceneSettings, ...preset });
+    setScrollAreaKey(Date.now());
+  };
+
+  const handleFilesChange = async (imageFile: File, depthMapFile: File, maskFile?: File, source?: DepthSource) => {
+    // A new scene starts from the settings currently in use.
     const newEntry: Omit<HistoryDbEntry, 'id'> = {
       image: imageFile,
       depthMap: depthMapFile,
+      ...(maskFile && { mask: maskFile }),
+      settings: toStoredSceneSettings(sceneSettings),
       createdAt: new Date().toISOString(),
+      tags: [],
+      favorite: 0,
+      ...(source && { source }),
     };
+    try {
+      newEntry.thumbnail = await createThumbnail(imageFile);
+    } catch (error) {
+      // The list falls back to the full photo and tries again the next time it loads.
+      console.error("Failed to create history thumbnail", error);
+    }
     try {
       const id = await addHistory(newEntry);
-      setHistory(prev => [{ ...newEntry, id }, ...prev]);
+      const entry = { ...newEntry, id };
+      // The new entry is listed until the next reload, even if the filter would hide it.
+      setHistory(prev => [entry, ...prev]);
+      if (matchesHistoryFilter(entry, historyFilter)) setHistoryMatchCount(prev => prev + 1);
+      setHistoryCount(prev => prev + 1);
+      setCurrentEntry(entry);
       setImage(URL.createObjectURL(imageFile));
       setDepthMap(URL.createObjectURL(depthMapFile));
+      setMask(maskFile ? URL.createObjectURL(maskFile) : null);
       setKey(Date.now());
     } catch (error) {
        console.error("Failed to save history to IndexedDB", error);
@@ -128,29 +327,97 @@ export default function HomePage() {
     if (depthMap) URL.revokeObjectURL(depthMap);
     setImage(null);
     setDepthMap(null);
+    setMask(null);
+    setCurrentEntry(null);
   }, [image, depthMap]);
   
   const handleLoadFromHistory = (entry: HistoryDbEntry) => {
     handleReset();
+    setCurrentEntry(entry);
     setImage(URL.createObjectURL(entry.image));
     setDepthMap(URL.createObjectURL(entry.depthMap));
+    setMask(entry.mask ? URL.createObjectURL(entry.mask) : null);
+    applySceneSettings(parseSceneSettings(entry.settings));
+    setKey(Date.now());
+  };
+
+  /** Applies changes already saved to the database to the open entry and the history list. */
+  const patchHistoryEntry = (id: number, changes: Partial<HistoryDbEntry>) => {
+    setHistory(prev => prev.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+    setCurrentEntry(prev => prev?.id === id ? { ...prev, ...changes } : prev);
+  };
+
+  useEffect(() => {
+    if (!currentEntry) return;
+    const settings = toStoredSceneSettings(sceneSettings);
+    // Loading an entry applies its own settings, which need no saving.
+    if (JSON.stringify(settings) === JSON.stringify(currentEntry.settings)) return;
+    const timeout = setTimeout(() => {
+      updateHistory(currentEntry.id, { settings })
+        .then(() => patchHistoryEntry(currentEntry.id, { settings }))
+        .catch(error => console.error("Failed to save scene settings to IndexedDB", error));
+    }, SETTINGS_SAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [currentEntry, sceneSettings]);
+
+  const handleSaveEditedDepth = async (depthMapFile: File) => {
+    if (!currentEntry) return;
+    await updateHistory(currentEntry.id, { depthMap: depthMapFile });
+    patchHistoryEntry(currentEntry.id, { depthMap: depthMapFile });
+    // Both URLs are replaced because the cleanup effect revokes them together.
+    setImage(URL.createObjectURL(currentEntry.image));
+    setDepthMap(URL.createObjectURL(depthMapFile));
     setKey(Date.now());
   };
 
   const handleDeleteFromHistory = async (id: number) => {
     try {
       await deleteHistory(id);
+      const deleted = history.find(entry => entry.id === id);
       setHistory(prev => prev.filter(entry => entry.id !== id));
+      if (deleted && matchesHistoryFilter(deleted, historyFilter)) setHistoryMatchCount(prev => prev - 1);
+      setHistoryCount(prev => prev - 1);
+      loadLibraryLabels();
     } catch (error) {
        console.error("Failed to delete history from IndexedDB", error);
     }
   };
 
+  // Edited entries stay in the list until it reloads, even if they no longer match the filter.
+  const handleUpdateHistoryEntry = async (id: number, changes: HistoryEntryChanges) => {
+    await updateHistory(id, changes);
+    patchHistoryEntry(id, changes);
+    if (changes.tags) loadLibraryLabels();
+  };
+
+  const handleCreateAlbum = async (name: string) => {
+    const id = await addAlbum(name);
+    loadLibraryLabels();
+    return id;
+  };
+
+  const handleDeleteAlbum = async (id: number) => {
+    try {
+      await deleteAlbum(id);
+      if (historyFilter.albumId === id) handleHistoryFilterChange({ ...historyFilter, albumId: undefined });
+      setHistory(prev => prev.map(entry => entry.albumId === id ? { ...entry, albumId: undefined } : entry));
+      setCurrentEntry(prev => prev?.albumId === id ? { ...prev, albumId: undefined } : prev);
+      loadLibraryLabels();
+    } catch (error) {
+      console.error("Failed to delete album from IndexedDB", error);
+      toast({ variant: "destructive", title: "删除相册失败", description: error instanceof Error ? error.message : "发生未知错误" });
+    }
+  };
+
   const handleExport = async () => {
     if (!sceneRef.current) return;
     setIsExporting(true);
     try {
-      await sceneRef.current.handleExport('glb');
+      if (exportFormat === 'depth-jpeg') {
+        await sceneRef.current.exportDepthJpeg();
+      } else {
+        await sceneRef.current.handleExport(exportFormat);
+      }
     } catch (error) {
       console.error("Export failed", error);
       toast({
@@ -164,13 +431,88 @@ export default function HomePage() {
     }
   };
   
+  const handleExportStereo = async (format: StereoExportFormat) => {
+    if (!sceneRef.current) return;
+    setIsExporting(true);
+    try {
+      await sceneRef.current.exportStereo(format);
+    } catch (error) {
+      console.error("Stereo export failed", error);
+      toast({
+        variant: "destructive",
+        title: "导出失败",
+        description: error instanceof Error ? error.message : "发生未知错误",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportQuilt = async () => {
+    if (!sceneRef.current) return;
+    setIsExporting(true);
+    setQuiltProgress(0);
+    try {
+      await sceneRef.current.exportQuilt(quiltOptions, setQuiltProgress);
+      setIsQuiltDialogOpen(false);
+    } catch (error) {
+      console.error("Quilt export failed", error);
+      toast({
+        variant: "destructive",
+        title: "导出失败",
+        description: error instanceof Error ? error.message : "发生未知错误",
+      });
+    } finally {
+      setIsExporting(false);
+      setQuiltProgress(null);
+    }
+  };
+
+  const handleEnterVR = async () => {
+    if (!sceneRef.current) return;
+    try {
+      await sceneRef.current.enterVR();
+    } catch (error) {
+      console.error("Failed to enter VR", error);
+      toast({
+        variant: "destructive",
+        title: "无法进入 VR",
+        description: error instanceof Error ? error.message : "发生未知错误",
+      });
+    }
+  };
+
+  const handleCaptureKeyframe = () => {
+    const keyframe = sceneRef.current?.captureKeyframe();
+    if (!keyframe) return;
+    setRecordingOptions(prev => ({ ...prev, keyframes: [...prev.keyframes, keyframe] }));
+    toast({ title: "已添加关键帧", description: `当前共 ${recordingOptions.keyframes.length + 1} 个关键帧。` });
+  };
+
   const handleRecord = async () => {
     if (!sceneRef.current || isRecording) return;
+    setIsRecordDialogOpen(false);
     setIsRecording(true);
-    toast({ title: "录制中", description: "正在自动运镜，请稍候..." });
     try {
-      await sceneRef.current.startRecording(3000);
-      toast({ title: "录制成功", description: "视频已开始下载。" });
+      if (videoOutput.mode === 'animated-image') {
+        toast({ title: "渲染中", description: "正在逐帧渲染动图，请稍候..." });
+        setRenderProgress(0);
+        await sceneRef.current.renderAnimatedImage(recordingOptions, animatedImageOptions, setRenderProgress);
+        toast({ title: "渲染成功", description: "动图已开始下载。" });
+      } else if (videoOutput.mode === 'offline') {
+        toast({ title: "渲染中", description: "正在逐帧渲染视频，请稍候..." });
+        setRenderProgress(0);
+        const format = await sceneRef.current.renderVideo(recordingOptions, videoOutput, setRenderProgress);
+        if (format === 'png-sequence') {
+          toast({ title: "渲染成功", description: "当前浏览器不支持视频编码，已导出 PNG 序列帧压缩包。" });
+        } else {
+          toast({ title: "渲染成功", description: "视频已开始下载。" });
+        }
+      } else {
+        toast({ title: "录制中", description: "正在自动运镜，请稍候..." });
+        await sceneRef.current.startRecording(recordingOptions);
+        toast({ title: "录制成功", description: "视频已开始下载。" });
+      }
     } catch (error) {
        console.error("Recording failed", error);
        toast({
@@ -180,6 +522,7 @@ export default function HomePage() {
       });
     } finally {
        setIsRecording(false);
+       setRenderProgress(null);
     }
   };
 
@@ -189,17 +532,19 @@ export default function HomePage() {
       if (depthMap) URL.revokeObjectURL(depthMap);
     };
   }, [image, depthMap]);
+
+  useEffect(() => {
+    return () => {
+      if (mask) URL.revokeObjectURL(mask);
+    };
+  }, [mask]);
   
   const handleRenderModeChange = (value: string) => {
-    const newMode = value as RenderMode;
-    setRenderMode(newMode);
-    if (newMode === 'fill') {
-      setIsFillWarningOpen(true);
-    }
+    setRenderMode(value as RenderMode);
   };
 
   const handleBackgroundModeChange = (value: string) => {
-    const newMode = value as 'blur' | 'solid';
+    const newMode = value as BackgroundMode;
     if (scrollAreaRef.current) {
         scrollPositionRef.current = scrollAreaRef.current.scrollTop;
     }
@@ -208,11 +553,23 @@ export default function HomePage() {
   };
 
   const handleMeshDetailChange = (value: string) => {
-    const newDetail = Number(value);
     if (scrollAreaRef.current) {
       scrollPositionRef.current = scrollAreaRef.current.scrollTop;
     }
-    setMeshDetail(newDetail);
+    if (value === 'adaptive') {
+      setAdaptiveMesh(true);
+    } else {
+      setAdaptiveMesh(false);
+      setMeshDetail(Number(value));
+    }
+    setScrollAreaKey(Date.now());
+  };
+
+  const handleTriangleBudgetChange = (value: string) => {
+    if (scrollAreaRef.current) {
+      scrollPositionRef.current = scrollAreaRef.current.scrollTop;
+    }
+    setTriangleBudget(Number(value));
     setScrollAreaKey(Date.now());
   };
 
@@ -244,10 +601,20 @@ export default function HomePage() {
                         <Download className="mr-2 h-4 w-4" />
                         导出
                     </Button>
-                    <Button variant="outline" onClick={handleRecord} disabled={isRecording} className="bg-background/20 hover:bg-muted/30 backdrop-blur-sm border-white/10">
+                    <Button variant="outline" onClick={() => setIsRecordDialogOpen(true)} disabled={isRecording} className="bg-background/20 hover:bg-muted/30 backdrop-blur-sm border-white/10">
                         {isRecording ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Video className="mr-2 h-4 w-4" />}
-                        {isRecording ? '录制中...' : '录制'}
+                        {isRecording ? (renderProgress !== null ? `渲染中 ${Math.round(renderProgress * 100)}%` : '录制中...') : '录制'}
                     </Button>
+                    <Button variant="outline" onClick={() => setIsDepthEditorOpen(true)} disabled={isRecording || !currentEntry} className="bg-background/20 hover:bg-muted/30 backdrop-blur-sm border-white/10">
+                        <Brush className="mr-2 h-4 w-4" />
+                        编辑深度
+                    </Button>
+                    {vrSupported && (
+                      <Button variant="outline" onClick={handleEnterVR} disabled={isRecording} className="bg-background/20 hover:bg-muted/30 backdrop-blur-sm border-white/10">
+                          <Glasses className="mr-2 h-4 w-4" />
+                          VR
+                      </Button>
+                    )}
                 </div>
                 <Button variant="outline" onClick={handleReset} disabled={isRecording} className="bg-background/20 hover:bg-muted/30 backdrop-blur-sm border-white/10">
                   <ArrowLeft className="mr-2 h-4 w-4" />
@@ -264,6 +631,8 @@ export default function HomePage() {
               cameraDistance={cameraDistance} 
               orthographicZoom={orthographicZoom}
               meshDetail={meshDetail} 
+              adaptiveMesh={adaptiveMesh}
+              triangleBudget={triangleBudget}
               blurIntensity={blurIntensity} 
               blurOffset={blurOffset}
               viewAngleLimit={viewAngleLimit}
@@ -273,51 +642,118 @@ export default function HomePage() {
               renderMode={renderMode}
               selectionRange={selectionRange}
               cameraType={cameraType}
+              layeredMesh={layeredMesh}
+              mask={mask}
+              popOut={popOut}
+              stereo={stereo}
               onDistanceChange={setCameraDistance}
               onZoomChange={setOrthographicZoom}
             />
 
+            <DepthEditor
+              open={isDepthEditorOpen}
+              onOpenChange={setIsDepthEditorOpen}
+              image={currentEntry?.image ?? null}
+              depthMap={currentEntry?.depthMap ?? null}
+              onSave={handleSaveEditedDepth}
+            />
+
             <Dialog open={isExportDialogOpen} onOpenChange={setIsExportDialogOpen}>
               <DialogContent>
                 <DialogHeader>
                   <DialogTitle>导出3D模型</DialogTitle>
                   <DialogDescription asChild>
                     <div>
-                      GLB格式文件可广泛应用于支持3D模型的办公演示软件、设计工具及三维建模软件，便于直接使用或进一步编辑。
-                      你也可以使用{' '}
-                      <a
-                        href="https://gltf-viewer.donmccurdy.com/"
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-primary underline"
-                      >
-                        gltf-viewer
-                      </a>{' '}
-                      在网页端查看。
+                      {exportFormats.find(format => format.value === exportFormat)?.description}。
+                      {exportFormat === 'glb' && (
+                        <>
+                          你也可以使用{' '}
+                          <a
+                            href="https://gltf-viewer.donmccurdy.com/"
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary underline"
+                          >
+                            gltf-viewer
+                          </a>{' '}
+                          在网页端查看。
+                        </>
+                      )}
                     </div>
                   </DialogDescription>
                 </DialogHeader>
+                <RadioGroup value={exportFormat} onValueChange={(value) => setExportFormat(value as SceneExportFormat)} className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                  {exportFormats.map(format => (
+                    <div key={format.value}>
+                      <RadioGroupItem value={format.value} id={`export-${format.value}`} className="peer sr-only" />
+                      <Label htmlFor={`export-${format.value}`} className="flex text-sm items-center justify-center rounded-md border-2 border-transparent bg-background/30 p-3 hover:bg-accent/80 hover:text-accent-foreground peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-accent [&:has([data-state=checked])]:border-primary">
+                        {format.label}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
                 <DialogFooter>
                   <Button onClick={handleExport} disabled={isExporting} className="w-full">
                     {isExporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    {isExporting ? '正在导出...' : '导出为GLB'}
+                    {isExporting ? '正在导出...' : `导出为${exportFormats.find(format => format.value === exportFormat)?.label}`}
                   </Button>
                 </DialogFooter>
               </DialogContent>
             </Dialog>
 
-             <AlertDialog open={isFillWarningOpen} onOpenChange={setIsFillWarningOpen}>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>功能开发中</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    背景填充功能仍在开发中，暂时只做留空处理。
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogAction onClick={() => setIsFillWarningOpen(false)}>知道了</AlertDialogAction>
-              </AlertDialogContent>
-            </AlertDialog>
 
+            <Dialog open={isRecordDialogOpen} onOpenChange={setIsRecordDialogOpen}>
+              <DialogContent className="max-h-[85vh] flex flex-col">
+                <DialogHeader>
+                  <DialogTitle>录制视频</DialogTitle>
+                  <DialogDescription>
+                    选择录制方式与运镜路径，并调整时长、帧率与循环次数，完成后将自动下载视频。
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="overflow-y-auto px-1">
+                  <RecordingSettings
+                    options={recordingOptions}
+                    onOptionsChange={setRecordingOptions}
+                    output={videoOutput}
+                    onOutputChange={setVideoOutput}
+                    imageOptions={animatedImageOptions}
+                    onImageOptionsChange={setAnimatedImageOptions}
+                    onCaptureKeyframe={handleCaptureKeyframe}
+                    cameraType={cameraType}
+                  />
+                </div>
+                <DialogFooter>
+                  <Button
+                    onClick={handleRecord}
+                    disabled={isRecording || (recordingOptions.path === 'keyframes' && recordingOptions.keyframes.length < 2)}
+                    className="w-full"
+                  >
+                    <Video className="mr-2 h-4 w-4" />
+                    {videoOutput.mode === 'realtime' ? '开始录制' : '开始渲染'}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+
+            <Dialog open={isQuiltDialogOpen} onOpenChange={setIsQuiltDialogOpen}>
+              <DialogContent className="max-h-[85vh] flex flex-col">
+                <DialogHeader>
+                  <DialogTitle>导出光场图</DialogTitle>
+                  <DialogDescription>
+                    沿水平弧线渲染多个视角并排列为 Quilt 图像，可在 Looking Glass 等光场显示器上播放。
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="overflow-y-auto px-1">
+                  <QuiltSettings options={quiltOptions} onOptionsChange={setQuiltOptions} />
+                </div>
+                <DialogFooter>
+                  <Button onClick={handleExportQuilt} disabled={isExporting} className="w-full">
+                    {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                    {quiltProgress !== null ? `渲染中 ${Math.round(quiltProgress * 100)}%` : '导出 PNG'}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
 
             <div className={cn("absolute bottom-6 right-6 z-20 transition-opacity", (isSettingsOpen || isRecording) && "opacity-0 pointer-events-none")}>
                <Sheet open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
@@ -344,6 +780,8 @@ export default function HomePage() {
                         />
                       </div>
                       {!sensorSupported && <p className="text-xs text-center text-destructive">您的设备不支持方向传感器。</p>}
+
+                      <PresetPicker settings={sceneSettings} onApply={handleApplyPreset} />
                       
                       <div className="space-y-4 rounded-lg p-3 bg-muted/50">
                         <Label className="font-semibold">渲染模式</Label>
@@ -357,7 +795,7 @@ export default function HomePage() {
                             <div>
                               <RadioGroupItem value="fill" id="mode-fill" className="peer sr-only" />
                               <Label htmlFor="mode-fill" className="flex text-sm items-center justify-center rounded-md border-2 border-transparent bg-background/30 p-3 hover:bg-accent/80 hover:text-accent-foreground peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-accent [&:has([data-state=checked])]:border-primary">
-                                背景填充(beta)
+                                背景填充
                               </Label>
                             </div>
                           </RadioGroup>
@@ -470,6 +908,61 @@ export default function HomePage() {
                         </div>
                       </div>
 
+                      <div className="space-y-4 rounded-lg p-3 bg-muted/50">
+                        <Label htmlFor="stereo-mode-select" className="font-semibold">立体视图</Label>
+                        <Select value={stereo.mode} onValueChange={(value) => setStereo(prev => ({ ...prev, mode: value as StereoMode }))}>
+                          <SelectTrigger id="stereo-mode-select">
+                            <SelectValue placeholder="选择立体模式" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {stereoModes.map(mode => (
+                              <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="outline" className="w-full" onClick={() => setIsQuiltDialogOpen(true)} disabled={isExporting || isRecording}>
+                          <Download className="mr-2 h-4 w-4" />
+                          导出光场图 (Quilt)
+                        </Button>
+                        {stereo.mode !== 'off' && (
+                          <>
+                            <div className="flex flex-col gap-2">
+                              <Label htmlFor="interaxial-slider" className="text-center">瞳距: {stereo.interaxial.toFixed(3)}</Label>
+                              <Slider
+                                id="interaxial-slider"
+                                min={0}
+                                max={0.2}
+                                step={0.001}
+                                value={[stereo.interaxial]}
+                                onValueChange={(value) => setStereo(prev => ({ ...prev, interaxial: value[0] }))}
+                              />
+                            </div>
+                            <div className="flex flex-col gap-2">
+                              <Label htmlFor="convergence-slider" className="text-center">汇聚平面: {stereo.convergence.toFixed(2)}</Label>
+                              <Slider
+                                id="convergence-slider"
+                                min={-1}
+                                max={1}
+                                step={0.01}
+                                value={[stereo.convergence]}
+                                onValueChange={(value) => setStereo(prev => ({ ...prev, convergence: value[0] }))}
+                              />
+                              <p className="text-xs text-muted-foreground">正值使画面更多地凹入屏幕，负值使画面向外凸出</p>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                              <Button variant="outline" onClick={() => handleExportStereo('jpeg')} disabled={isExporting || isRecording}>
+                                <Download className="mr-2 h-4 w-4" />
+                                立体图 JPEG
+                              </Button>
+                              <Button variant="outline" onClick={() => handleExportStereo('mpo')} disabled={isExporting || isRecording}>
+                                <Download className="mr-2 h-4 w-4" />
+                                立体图 MPO
+                              </Button>
+                            </div>
+                          </>
+                        )}
+                      </div>
+
                       <div className="space-y-4 rounded-lg p-3 bg-muted/50">
                         <Label className="font-semibold">高级设置</Label>
                          <div className="flex flex-col gap-2">
@@ -502,20 +995,69 @@ export default function HomePage() {
                         <div className="flex flex-col gap-2">
                           <Label className="text-center">网格细节</Label>
                           <RadioGroup 
-                            value={String(meshDetail)} 
+                            value={adaptiveMesh ? 'adaptive' : String(meshDetail)} 
                             onValueChange={handleMeshDetailChange} 
-                            className="grid grid-cols-3 gap-2"
+                            className="grid grid-cols-4 gap-2"
                           >
                             {[512, 1024, 2048].map(detail => (
                               <div key={detail}>
-                                <RadioGroupItem value={String(detail)} id={`mesh-${detail}`} className="peer sr-only" disabled={meshDetail === detail} />
+                                <RadioGroupItem value={String(detail)} id={`mesh-${detail}`} className="peer sr-only" disabled={!adaptiveMesh && meshDetail === detail} />
                                 <Label htmlFor={`mesh-${detail}`} className="flex text-sm items-center justify-center rounded-md border-2 border-transparent bg-background/30 p-3 hover:bg-accent/80 hover:text-accent-foreground peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-accent [&:has([data-state=checked])]:border-primary">
                                   {detail}
                                 </Label>
                               </div>
                             ))}
+                            <div>
+                              <RadioGroupItem value="adaptive" id="mesh-adaptive" className="peer sr-only" disabled={adaptiveMesh} />
+                              <Label htmlFor="mesh-adaptive" className="flex text-sm items-center justify-center rounded-md border-2 border-transparent bg-background/30 p-3 hover:bg-accent/80 hover:text-accent-foreground peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-accent [&:has([data-state=checked])]:border-primary">
+                                自适应
+                              </Label>
+                            </div>
+                          </RadioGroup>
+                        </div>
+                        <div className={cn("flex flex-col gap-2", { 'hidden': !adaptiveMesh })}>
+                          <p className="text-xs text-muted-foreground">根据深度图的变化分配三角形，平坦区域使用较少的面，边缘处更精细，导出的模型也更小</p>
+                          <Label className="text-center">三角形预算</Label>
+                          <RadioGroup
+                            value={String(triangleBudget)}
+                            onValueChange={handleTriangleBudgetChange}
+                            className="grid grid-cols-3 gap-2"
+                          >
+                            {[50000, 200000, 500000].map(budget => (
+                              <div key={budget}>
+                                <RadioGroupItem value={String(budget)} id={`budget-${budget}`} className="peer sr-only" disabled={triangleBudget === budget} />
+                                <Label htmlFor={`budget-${budget}`} className="flex text-sm items-center justify-center rounded-md border-2 border-transparent bg-background/30 p-3 hover:bg-accent/80 hover:text-accent-foreground peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-accent [&:has([data-state=checked])]:border-primary">
+                                  {budget / 10000}万
+                                </Label>
+                              </div>
+                            ))}
                           </RadioGroup>
                         </div>
+                        <div className="flex items-center justify-between rounded-lg p-3 bg-background/30">
+                          <div className="space-y-1 pr-4">
+                            <Label htmlFor="layered-mesh" className="font-semibold">分层网格</Label>
+                            <p className="text-xs text-muted-foreground">在深度突变处切开网格，分离前景与背景层，转动视角时露出主体后方的内容</p>
+                          </div>
+                          <Switch
+                            id="layered-mesh"
+                            checked={layeredMesh}
+                            onCheckedChange={setLayeredMesh}
+                          />
+                        </div>
+                        <div className="flex items-center justify-between rounded-lg p-3 bg-background/30">
+                          <div className="space-y-1 pr-4">
+                            <Label htmlFor="pop-out" className="font-semibold">主体出框</Label>
+                            <p className="text-xs text-muted-foreground">
+                              {mask ? '为画面加上边框，识别出的主体越过边框显示在前方' : '需要在上传时识别主体后才能使用'}
+                            </p>
+                          </div>
+                          <Switch
+                            id="pop-out"
+                            checked={popOut && !!mask}
+                            onCheckedChange={setPopOut}
+                            disabled={!mask}
+                          />
+                        </div>
                       </div>
 
                     </div>
@@ -528,13 +1070,25 @@ export default function HomePage() {
       ) : (
         <div className="flex flex-col items-center justify-start w-full min-h-screen px-4 py-8 sm:py-16 gap-8">
             <FileUploader onFilesSelected={handleFilesChange} />
-            {history.length > 0 && (
+            {historyCount > 0 && (
               <HistoryList 
                 history={history}
+                totalCount={historyMatchCount}
+                hasMore={historyCursor !== null}
+                isLoadingMore={isLoadingHistory}
+                filter={historyFilter}
+                onFilterChange={handleHistoryFilterChange}
+                albums={albums}
+                tags={historyTags}
+                onLoadMore={handleLoadMoreHistory}
                 onLoad={handleLoadFromHistory}
                 onDelete={handleDeleteFromHistory}
+                onUpdate={handleUpdateHistoryEntry}
+                onCreateAlbum={handleCreateAlbum}
+                onDeleteAlbum={handleDeleteAlbum}
               />
             )}
+            <LibraryBackup count={historyCount} onLibraryChange={reloadHistory} />
         </div>
       )}
     </main>
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertTriangle, Contrast } from 'lucide-react';
+import { encodeDepthPng, loadDepthMap, type DepthMap } from '@/lib/depth-map';
+import {
+  alignDepthMap,
+  alignModes,
+  hasAspectMismatch,
+  invertDepthMap,
+  isLikelyInverted,
+  type AlignMode,
+  type Size,
+} from '@/lib/depth-align';
+
+interface DepthAlignmentProps {
+  image: File;
+  depthMap: File;
+  onDepthMapChange: (depthMap: File) => void;
+}
+
+interface Analysis {
+  imageSize: Size;
+  depth: DepthMap;
+  aspectMismatch: boolean;
+  inverted: boolean;
+}
+
+const optionCardClassName = "flex text-sm items-center justify-center rounded-md border-2 border-transparent bg-background/30 p-2 hover:bg-accent/80 hover:text-accent-foreground peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-accent [&:has([data-state=checked])]:border-primary";
+
+const readImageSize = async (image: File): Promise<Size> => {
+  const bitmap = await createImageBitmap(image);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+const toDepthFile = (depth: DepthMap, fileName: string) =>
+  new File([encodeDepthPng(depth)], fileName, { type: 'image/png' });
+
+/**
+ * Checks an uploaded photo and depth map against each other and, when their aspect ratios differ
+ * or the depth looks inverted, offers to fix the depth map. Renders nothing when they agree.
+ */
+export function DepthAlignment({ image, depthMap, onDepthMapChange }: DepthAlignmentProps) {
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const [mode, setMode] = useState<AlignMode>('crop');
+  const [overlayOpacity, setOverlayOpacity] = useState(0.5);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const depthUrl = URL.createObjectURL(depthMap);
+    setAnalysis(null);
+    setDismissed(false);
+    Promise.all([readImageSize(image), loadDepthMap(depthUrl)])
+      .then(([imageSize, depth]) => {
+        if (cancelled) return;
+        setAnalysis({
+          imageSize,
+          depth,
+          aspectMismatch: hasAspectMismatch(imageSize, depth),
+          inverted: isLikelyInverted(depth),
+        });
+      })
+      .catch(error => console.error("Failed to compare photo and depth map", error))
+      .finally(() => URL.revokeObjectURL(depthUrl));
+    return () => {
+      cancelled = true;
+    };
+  }, [image, depthMap]);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const aligned = useMemo(
+    () => (analysis?.aspectMismatch ? alignDepthMap(analysis.depth, analysis.imageSize, mode) : null),
+    [analysis, mode]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !aligned) return;
+    canvas.width = aligned.width;
+    canvas.height = aligned.height;
+    const imageData = context.createImageData(aligned.width, aligned.height);
+    for (let i = 0; i < aligned.data.length; i++) {
+      const shade = Math.round(aligned.data[i] * 255);
+      imageData.data[i * 4] = shade;
+      imageData.data[i * 4 + 1] = shade;
+      imageData.data[i * 4 + 2] = shade;
+      imageData.data[i * 4 + 3] = 255;
+    }
+    context.putImageData(imageData, 0, 0);
+  }, [aligned]);
+
+  if (!analysis || dismissed || (!analysis.aspectMismatch && !analysis.inverted)) {
+    return null;
+  }
+  const { imageSize, depth } = analysis;
+
+  return (
+    <Alert>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>深度图可能与照片不匹配</AlertTitle>
+      <AlertDescription className="space-y-4 pt-2">
+        {analysis.aspectMismatch && aligned && (
+          <div className="space-y-3">
+            <p className="text-muted-foreground">
+              照片为 {imageSize.width}×{imageSize.height}，深度图为 {depth.width}×{depth.height}，两者宽高比不同，直接使用会导致深度与画面错位。请选择对齐方式：
+            </p>
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as AlignMode)} className="grid grid-cols-3 gap-2">
+              {alignModes.map(alignMode => (
+                <div key={alignMode.value}>
+                  <RadioGroupItem value={alignMode.value} id={`align-${alignMode.value}`} className="peer sr-only" />
+                  <Label htmlFor={`align-${alignMode.value}`} className={optionCardClassName}>{alignMode.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <p className="text-xs text-muted-foreground">{alignModes.find(alignMode => alignMode.value === mode)?.description}</p>
+            <div
+              className="relative mx-auto overflow-hidden rounded-md"
+              style={{
+                aspectRatio: `${imageSize.width} / ${imageSize.height}`,
+                width: `min(100%, ${(16 * imageSize.width) / imageSize.height}rem)`,
+              }}
+            >
+              {imageUrl && <img src={imageUrl} alt="照片" className="absolute inset-0 w-full h-full" />}
+              <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" style={{ opacity: overlayOpacity }} />
+            </div>
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="align-overlay-slider" className="text-center">叠加不透明度: {Math.round(overlayOpacity * 100)}%</Label>
+              <Slider id="align-overlay-slider" min={0} max={1} step={0.05} value={[overlayOpacity]} onValueChange={(value) => setOverlayOpacity(value[0])} />
+            </div>
+            <Button onClick={() => onDepthMapChange(toDepthFile(aligned, 'aligned-depth-map.png'))} className="w-full">
+              应用对齐
+            </Button>
+          </div>
+        )}
+        {analysis.inverted && (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-muted-foreground">深度图似乎是反的：本应用以亮处为近、暗处为远，而这张图的近处偏暗。</p>
+            <Button variant="outline" onClick={() => onDepthMapChange(toDepthFile(invertDepthMap(depth), 'inverted-depth-map.png'))} className="shrink-0">
+              <Contrast className="mr-2 h-4 w-4" />
+              反转深度
+            </Button>
+          </div>
+        )}
+        <Button variant="ghost" size="sm" onClick={() => setDismissed(true)} className="w-full text-xs">
+          忽略
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,505 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, type PointerEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, Redo2, Save, Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { encodeDepthPng, loadDepthMap, sampleDepth, type DepthMap } from '@/lib/depth-map';
+import {
+  DEFAULT_LEVELS,
+  DepthEditHistory,
+  applyBrushDab,
+  applyLevels,
+  applyLinearGradient,
+  computeHistogram,
+  createLevelsMapping,
+  fullRect,
+  isDefaultLevels,
+  unionRect,
+  type BrushTool,
+  type EditRect,
+  type LevelsOptions,
+} from '@/lib/depth-edit';
+
+type EditTool = BrushTool | 'gradient' | 'levels';
+
+interface DepthEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  image: Blob | null;
+  depthMap: Blob | null;
+  onSave: (depthMap: File) => Promise<void> | void;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const editTools: { value: EditTool; label: string; description: string }[] = [
+  { value: 'pull', label: '拉近', description: '涂抹的区域向镜头靠近，按住反复涂抹效果会叠加' },
+  { value: 'push', label: '推远', description: '涂抹的区域远离镜头，按住反复涂抹效果会叠加' },
+  { value: 'smooth', label: '平滑', description: '柔化涂抹区域的深度起伏，适合修复发丝边缘和噪点' },
+  { value: 'flatten', label: '压平', description: '将涂抹区域拉平到落笔处的深度，适合修复天空、玻璃等平面' },
+  { value: 'gradient', label: '渐变', description: '在图上拖出一条线，沿该方向以线性渐变填充深度，适合地面和墙面' },
+  { value: 'levels', label: '色阶', description: '参照深度直方图调整色阶与曲线，作用于整张深度图' },
+];
+
+const optionCardClassName = "flex text-sm items-center justify-center rounded-md border-2 border-transparent bg-background/30 p-2 hover:bg-accent/80 hover:text-accent-foreground peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-accent [&:has([data-state=checked])]:border-primary";
+
+const HISTOGRAM_BINS = 64;
+// Brush sizes are a percentage of the shorter side so they feel the same at any resolution.
+const MIN_BRUSH_SIZE = 1;
+const MAX_BRUSH_SIZE = 30;
+// Dabs are placed along the stroke at this fraction of the radius, close enough to look continuous.
+const DAB_SPACING = 0.25;
+
+interface SliderFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const SliderField = ({ id, label, value, min, max, step, onChange }: SliderFieldProps) => (
+  <div className="flex flex-col gap-2">
+    <Label htmlFor={id} className="text-center">{label}</Label>
+    <Slider id={id} min={min} max={max} step={step} value={[value]} onValueChange={(values) => onChange(values[0])} />
+  </div>
+);
+
+function DepthEditorContent({ image, depthMap, onSave, onClose }: {
+  image: Blob;
+  depthMap: Blob;
+  onSave: DepthEditorProps['onSave'];
+  onClose: () => void;
+}) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [depthSize, setDepthSize] = useState<{ width: number; height: number } | null>(null);
+  const [displaySize, setDisplaySize] = useState({ width: 0, height: 0 });
+  const [tool, setTool] = useState<EditTool>('pull');
+  const [brushSize, setBrushSize] = useState(8);
+  const [brushStrength, setBrushStrength] = useState(0.5);
+  const [overlayOpacity, setOverlayOpacity] = useState(0.6);
+  const [gradientStart, setGradientStart] = useState(0);
+  const [gradientEnd, setGradientEnd] = useState(1);
+  const [gradientStrength, setGradientStrength] = useState(1);
+  const [levels, setLevels] = useState<LevelsOptions>(DEFAULT_LEVELS);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const [gradientLine, setGradientLine] = useState<{ start: Point; end: Point } | null>(null);
+  // Bumped after every committed edit so the histogram and undo buttons refresh.
+  const [version, setVersion] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const depthRef = useRef<DepthMap>();
+  const historyRef = useRef<DepthEditHistory>();
+  const strokeRef = useRef<{ last: Point; rect: EditRect | null; flattenTarget: number } | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const url = URL.createObjectURL(depthMap);
+    loadDepthMap(url)
+      .then(depth => {
+        if (cancelled) return;
+        depthRef.current = depth;
+        historyRef.current = new DepthEditHistory(depth);
+        setDepthSize({ width: depth.width, height: depth.height });
+      })
+      .catch(error => {
+        console.error("Failed to load depth map for editing", error);
+        toast({
+          variant: "destructive",
+          title: "无法编辑深度图",
+          description: error instanceof Error ? error.message : "发生未知错误",
+        });
+        onClose();
+      })
+      .finally(() => URL.revokeObjectURL(url));
+    return () => {
+      cancelled = true;
+    };
+  }, [depthMap, toast, onClose]);
+
+  // Fit the photo and depth overlay into the available space at the depth map's aspect ratio.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || !depthSize) return;
+    const observer = new ResizeObserver(() => {
+      const scale = Math.min(viewport.clientWidth / depthSize.width, viewport.clientHeight / depthSize.height);
+      setDisplaySize({ width: depthSize.width * scale, height: depthSize.height * scale });
+    });
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, [depthSize]);
+
+  const previewMapping = useMemo(
+    () => (tool === 'levels' && !isDefaultLevels(levels) ? createLevelsMapping(levels) : null),
+    [tool, levels]
+  );
+
+  const drawDepth = useCallback((rect?: EditRect) => {
+    const canvas = canvasRef.current;
+    const depth = depthRef.current;
+    const context = canvas?.getContext('2d');
+    if (!context || !depth) return;
+    const area = rect ?? fullRect(depth);
+    const imageData = context.createImageData(area.width, area.height);
+    for (let y = 0; y < area.height; y++) {
+      for (let x = 0; x < area.width; x++) {
+        const value = depth.data[(area.y + y) * depth.width + area.x + x];
+        const shade = Math.round(Math.min(1, Math.max(0, previewMapping ? previewMapping(value) : value)) * 255);
+        const offset = (y * area.width + x) * 4;
+        imageData.data[offset] = shade;
+        imageData.data[offset + 1] = shade;
+        imageData.data[offset + 2] = shade;
+        imageData.data[offset + 3] = 255;
+      }
+    }
+    context.putImageData(imageData, area.x, area.y);
+  }, [previewMapping]);
+
+  useEffect(() => {
+    drawDepth();
+  }, [drawDepth, depthSize]);
+
+  const histogram = useMemo(
+    () => (depthSize && depthRef.current ? computeHistogram(depthRef.current, HISTOGRAM_BINS) : null),
+    // The depth map is edited in place, so `version` stands in for its contents.
+    [depthSize, version]
+  );
+
+  const handleUndo = useCallback(() => {
+    const rect = historyRef.current?.undo();
+    if (!rect) return;
+    drawDepth(rect);
+    setVersion(v => v + 1);
+  }, [drawDepth]);
+
+  const handleRedo = useCallback(() => {
+    const rect = historyRef.current?.redo();
+    if (!rect) return;
+    drawDepth(rect);
+    setVersion(v => v + 1);
+  }, [drawDepth]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const depth = depthRef.current;
+  const brushRadius = depth ? Math.max(1, (brushSize / 100) * Math.min(depth.width, depth.height)) : 1;
+  const displayScale = depth && displaySize.width ? displaySize.width / depth.width : 1;
+
+  const toDepthPoint = (event: PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * (depth?.width ?? 0),
+      y: ((event.clientY - rect.top) / rect.height) * (depth?.height ?? 0),
+    };
+  };
+
+  const dab = (point: Point) => {
+    const stroke = strokeRef.current;
+    if (!depth || !stroke) return;
+    const rect = applyBrushDab(depth, point.x, point.y, {
+      tool: tool as BrushTool,
+      radius: brushRadius,
+      strength: brushStrength,
+      flattenTarget: stroke.flattenTarget,
+    });
+    if (!rect) return;
+    stroke.rect = unionRect(stroke.rect, rect);
+    drawDepth(rect);
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!depth || tool === 'levels' || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = toDepthPoint(event);
+
+    if (tool === 'gradient') {
+      setGradientLine({ start: point, end: point });
+      return;
+    }
+    historyRef.current?.begin();
+    strokeRef.current = {
+      last: point,
+      rect: null,
+      flattenTarget: sampleDepth(depth, point.x / depth.width, point.y / depth.height),
+    };
+    dab(point);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const point = toDepthPoint(event);
+    setCursor(point);
+
+    if (gradientLine) {
+      setGradientLine({ ...gradientLine, end: point });
+      return;
+    }
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    const distance = Math.hypot(point.x - stroke.last.x, point.y - stroke.last.y);
+    const spacing = Math.max(1, brushRadius * DAB_SPACING);
+    if (distance < spacing) return;
+    const steps = Math.floor(distance / spacing);
+    const from = stroke.last;
+    for (let i = 1; i <= steps; i++) {
+      const t = (i * spacing) / distance;
+      dab({ x: from.x + (point.x - from.x) * t, y: from.y + (point.y - from.y) * t });
+    }
+    stroke.last = {
+      x: from.x + (point.x - from.x) * ((steps * spacing) / distance),
+      y: from.y + (point.y - from.y) * ((steps * spacing) / distance),
+    };
+  };
+
+  const handlePointerUp = () => {
+    const history = historyRef.current;
+    if (!depth || !history) return;
+
+    if (gradientLine) {
+      const { start, end } = gradientLine;
+      setGradientLine(null);
+      if (Math.hypot(end.x - start.x, end.y - start.y) < 2) return;
+      history.begin();
+      history.commit(applyLinearGradient(depth, {
+        startX: start.x,
+        startY: start.y,
+        endX: end.x,
+        endY: end.y,
+        startValue: gradientStart,
+        endValue: gradientEnd,
+        strength: gradientStrength,
+      }));
+      drawDepth();
+      setVersion(v => v + 1);
+      return;
+    }
+    if (strokeRef.current) {
+      history.commit(strokeRef.current.rect);
+      strokeRef.current = null;
+      setVersion(v => v + 1);
+    }
+  };
+
+  const handleApplyLevels = () => {
+    const history = historyRef.current;
+    if (!depth || !history || isDefaultLevels(levels)) return;
+    history.begin();
+    history.commit(applyLevels(depth, levels));
+    setLevels(DEFAULT_LEVELS);
+    setVersion(v => v + 1);
+  };
+
+  const handleSave = async () => {
+    if (!depth) return;
+    setIsSaving(true);
+    try {
+      await onSave(new File([encodeDepthPng(depth)], 'depth-map.png', { type: 'image/png' }));
+      onClose();
+    } catch (error) {
+      console.error("Failed to save edited depth map", error);
+      toast({
+        variant: "destructive",
+        title: "保存失败",
+        description: error instanceof Error ? error.message : "发生未知错误",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateLevels = (patch: Partial<LevelsOptions>) => setLevels(prev => ({ ...prev, ...patch }));
+  const updateCurve = (index: number, value: number) => {
+    const curve: LevelsOptions['curve'] = [...levels.curve];
+    curve[index] = value;
+    updateLevels({ curve });
+  };
+
+  const histogramPeak = histogram ? Math.max(...Array.from(histogram, Math.sqrt)) : 0;
+  const levelsMapping = createLevelsMapping(levels);
+  const isBrush = tool !== 'gradient' && tool !== 'levels';
+
+  return (
+    <>
+      <div className="flex-1 min-h-0 flex flex-col md:flex-row gap-4">
+        <div ref={viewportRef} className="relative flex-1 min-h-[240px] flex items-center justify-center rounded-lg bg-muted/30 overflow-hidden">
+          {!depthSize && <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />}
+          {depthSize && (
+            <div className="relative" style={{ width: displaySize.width, height: displaySize.height }}>
+              {imageUrl && <img src={imageUrl} alt="照片" className="absolute inset-0 w-full h-full select-none" draggable={false} />}
+              <canvas
+                ref={canvasRef}
+                width={depthSize.width}
+                height={depthSize.height}
+                className={isBrush ? "absolute inset-0 w-full h-full touch-none cursor-none" : "absolute inset-0 w-full h-full touch-none cursor-crosshair"}
+                style={{ opacity: overlayOpacity }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onPointerLeave={() => setCursor(null)}
+              />
+              {isBrush && cursor && (
+                <div
+                  className="absolute pointer-events-none rounded-full border border-white shadow-[0_0_0_1px_rgba(0,0,0,0.6)]"
+                  style={{
+                    left: (cursor.x - brushRadius) * displayScale,
+                    top: (cursor.y - brushRadius) * displayScale,
+                    width: brushRadius * 2 * displayScale,
+                    height: brushRadius * 2 * displayScale,
+                  }}
+                />
+              )}
+              {gradientLine && (
+                <svg className="absolute inset-0 w-full h-full pointer-events-none">
+                  <line
+                    x1={gradientLine.start.x * displayScale}
+                    y1={gradientLine.start.y * displayScale}
+                    x2={gradientLine.end.x * displayScale}
+                    y2={gradientLine.end.y * displayScale}
+                    stroke="white"
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                  />
+                  <circle cx={gradientLine.start.x * displayScale} cy={gradientLine.start.y * displayScale} r={5} fill={`rgb(${Math.round(gradientStart * 255)}, ${Math.round(gradientStart * 255)}, ${Math.round(gradientStart * 255)})`} stroke="white" />
+                  <circle cx={gradientLine.end.x * displayScale} cy={gradientLine.end.y * displayScale} r={5} fill={`rgb(${Math.round(gradientEnd * 255)}, ${Math.round(gradientEnd * 255)}, ${Math.round(gradientEnd * 255)})`} stroke="white" />
+                </svg>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="w-full md:w-72 shrink-0 overflow-y-auto space-y-4 px-1">
+          <div className="flex flex-col gap-2">
+            <Label className="text-center">工具</Label>
+            <RadioGroup value={tool} onValueChange={(value) => setTool(value as EditTool)} className="grid grid-cols-3 gap-2">
+              {editTools.map(editTool => (
+                <div key={editTool.value}>
+                  <RadioGroupItem value={editTool.value} id={`depth-tool-${editTool.value}`} className="peer sr-only" />
+                  <Label htmlFor={`depth-tool-${editTool.value}`} className={optionCardClassName}>{editTool.label}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <p className="text-xs text-muted-foreground">{editTools.find(editTool => editTool.value === tool)?.description}</p>
+          </div>
+
+          {isBrush && (
+            <div className="space-y-4 rounded-lg p-3 bg-muted/50">
+              <SliderField id="depth-brush-size" label={`画笔大小: ${brushSize}%`} min={MIN_BRUSH_SIZE} max={MAX_BRUSH_SIZE} step={1} value={brushSize} onChange={setBrushSize} />
+              <SliderField id="depth-brush-strength" label={`强度: ${Math.round(brushStrength * 100)}%`} min={0.05} max={1} step={0.05} value={brushStrength} onChange={setBrushStrength} />
+            </div>
+          )}
+
+          {tool === 'gradient' && (
+            <div className="space-y-4 rounded-lg p-3 bg-muted/50">
+              <SliderField id="depth-gradient-start" label={`起点深度: ${Math.round(gradientStart * 100)}%`} min={0} max={1} step={0.01} value={gradientStart} onChange={setGradientStart} />
+              <SliderField id="depth-gradient-end" label={`终点深度: ${Math.round(gradientEnd * 100)}%`} min={0} max={1} step={0.01} value={gradientEnd} onChange={setGradientEnd} />
+              <SliderField id="depth-gradient-strength" label={`强度: ${Math.round(gradientStrength * 100)}%`} min={0.05} max={1} step={0.05} value={gradientStrength} onChange={setGradientStrength} />
+              <p className="text-xs text-muted-foreground">0% 为最远，100% 为最近</p>
+            </div>
+          )}
+
+          {tool === 'levels' && (
+            <div className="space-y-4 rounded-lg p-3 bg-muted/50">
+              {histogram && (
+                <svg viewBox={`0 0 ${HISTOGRAM_BINS} 32`} preserveAspectRatio="none" className="w-full h-24 rounded bg-background/40">
+                  {Array.from(histogram, (count, bin) => {
+                    const height = histogramPeak > 0 ? (Math.sqrt(count) / histogramPeak) * 32 : 0;
+                    return <rect key={bin} x={bin} y={32 - height} width={1} height={height} className="fill-muted-foreground/60" />;
+                  })}
+                  <polyline
+                    points={Array.from({ length: HISTOGRAM_BINS + 1 }, (_, i) => `${i},${32 - levelsMapping(i / HISTOGRAM_BINS) * 32}`).join(' ')}
+                    fill="none"
+                    className="stroke-primary"
+                    strokeWidth={0.5}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+              )}
+              <SliderField id="depth-levels-input-low" label={`输入黑场: ${levels.inputLow.toFixed(2)}`} min={0} max={0.99} step={0.01} value={levels.inputLow} onChange={(value) => updateLevels({ inputLow: Math.min(value, levels.inputHigh - 0.01) })} />
+              <SliderField id="depth-levels-input-high" label={`输入白场: ${levels.inputHigh.toFixed(2)}`} min={0.01} max={1} step={0.01} value={levels.inputHigh} onChange={(value) => updateLevels({ inputHigh: Math.max(value, levels.inputLow + 0.01) })} />
+              <SliderField id="depth-levels-gamma" label={`伽马: ${levels.gamma.toFixed(2)}`} min={0.2} max={3} step={0.05} value={levels.gamma} onChange={(value) => updateLevels({ gamma: value })} />
+              <SliderField id="depth-levels-output-low" label={`输出黑场: ${levels.outputLow.toFixed(2)}`} min={0} max={1} step={0.01} value={levels.outputLow} onChange={(value) => updateLevels({ outputLow: value })} />
+              <SliderField id="depth-levels-output-high" label={`输出白场: ${levels.outputHigh.toFixed(2)}`} min={0} max={1} step={0.01} value={levels.outputHigh} onChange={(value) => updateLevels({ outputHigh: value })} />
+              <SliderField id="depth-curve-shadows" label={`曲线 · 远景: ${levels.curve[0].toFixed(2)}`} min={0} max={1} step={0.01} value={levels.curve[0]} onChange={(value) => updateCurve(0, value)} />
+              <SliderField id="depth-curve-midtones" label={`曲线 · 中景: ${levels.curve[1].toFixed(2)}`} min={0} max={1} step={0.01} value={levels.curve[1]} onChange={(value) => updateCurve(1, value)} />
+              <SliderField id="depth-curve-highlights" label={`曲线 · 近景: ${levels.curve[2].toFixed(2)}`} min={0} max={1} step={0.01} value={levels.curve[2]} onChange={(value) => updateCurve(2, value)} />
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => setLevels(DEFAULT_LEVELS)} disabled={isDefaultLevels(levels)}>重置</Button>
+                <Button onClick={handleApplyLevels} disabled={isDefaultLevels(levels)}>应用</Button>
+              </div>
+            </div>
+          )}
+
+          <SliderField id="depth-overlay-opacity" label={`深度图不透明度: ${Math.round(overlayOpacity * 100)}%`} min={0} max={1} step={0.05} value={overlayOpacity} onChange={setOverlayOpacity} />
+        </div>
+      </div>
+
+      <DialogFooter className="flex-row gap-2 sm:justify-between">
+        <div className="flex gap-2">
+          <Button variant="outline" size="icon" onClick={handleUndo} disabled={!historyRef.current?.canUndo} title="撤销 (Ctrl+Z)">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={handleRedo} disabled={!historyRef.current?.canRedo} title="重做 (Ctrl+Shift+Z)">
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+        <Button onClick={handleSave} disabled={isSaving || !historyRef.current?.canUndo}>
+          {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          保存深度图
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+/** Dialog for touching up a depth map over its photo; the edited map is passed to `onSave` as a 16-bit PNG. */
+export function DepthEditor({ open, onOpenChange, image, depthMap, onSave }: DepthEditorProps) {
+  const handleClose = useCallback(() => onOpenChange(false), [onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl w-[95vw] h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>编辑深度图</DialogTitle>
+          <DialogDescription>
+            在照片上涂抹修正深度，亮处表示近、暗处表示远。支持撤销 (Ctrl+Z) 与重做 (Ctrl+Shift+Z)，保存后替换原深度图。
+          </DialogDescription>
+        </DialogHeader>
+        {image && depthMap && (
+          <DepthEditorContent image={image} depthMap={depthMap} onSave={onSave} onClose={handleClose} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
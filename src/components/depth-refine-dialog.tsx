@@ -0,0 +1,244 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, Wand2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { encodeDepthPng, loadDepthMap, type DepthMap } from '@/lib/depth-map';
+import { DEFAULT_REFINE_OPTIONS, REFINE_MAX_SIZE, type GuideImage, type RefineOptions } from '@/lib/depth-refine';
+
+interface DepthRefineDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  image: Blob | null;
+  depthMap: Blob | null;
+  onApply: (depthMap: File) => void;
+}
+
+// Slider changes are collected for this long before the preview is recomputed.
+const PREVIEW_DELAY = 300;
+
+const loadGuideImage = async (image: Blob): Promise<GuideImage> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, REFINE_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      throw new Error('Failed to get 2d context from canvas');
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+    return context.getImageData(0, 0, width, height);
+  } finally {
+    bitmap.close();
+  }
+};
+
+const drawDepth = (canvas: HTMLCanvasElement, depth: DepthMap) => {
+  canvas.width = depth.width;
+  canvas.height = depth.height;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+  const imageData = context.createImageData(depth.width, depth.height);
+  for (let i = 0; i < depth.data.length; i++) {
+    const shade = Math.round(depth.data[i] * 255);
+    imageData.data[i * 4] = shade;
+    imageData.data[i * 4 + 1] = shade;
+    imageData.data[i * 4 + 2] = shade;
+    imageData.data[i * 4 + 3] = 255;
+  }
+  context.putImageData(imageData, 0, 0);
+};
+
+function DepthRefineContent({ image, depthMap, onApply, onClose }: {
+  image: Blob;
+  depthMap: Blob;
+  onApply: DepthRefineDialogProps['onApply'];
+  onClose: () => void;
+}) {
+  const [options, setOptions] = useState<RefineOptions>(DEFAULT_REFINE_OPTIONS);
+  const [split, setSplit] = useState(50);
+  const [source, setSource] = useState<{ depth: DepthMap; guide: GuideImage } | null>(null);
+  const [refined, setRefined] = useState<DepthMap | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [beforeUrl, setBeforeUrl] = useState<string | null>(null);
+  const workerRef = useRef<Worker>();
+  const jobIdRef = useRef(0);
+  const afterCanvasRef = useRef<HTMLCanvasElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const url = URL.createObjectURL(depthMap);
+    setBeforeUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [depthMap]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const url = URL.createObjectURL(depthMap);
+    Promise.all([loadDepthMap(url), loadGuideImage(image)])
+      .then(([depth, guide]) => {
+        if (!cancelled) setSource({ depth, guide });
+      })
+      .catch(error => {
+        console.error("Failed to load images for refinement", error);
+        toast({
+          variant: "destructive",
+          title: "无法优化深度图",
+          description: error instanceof Error ? error.message : "发生未知错误",
+        });
+        onClose();
+      })
+      .finally(() => URL.revokeObjectURL(url));
+    return () => {
+      cancelled = true;
+    };
+  }, [image, depthMap, toast, onClose]);
+
+  useEffect(() => {
+    workerRef.current = new Worker(new URL('../workers/refine-worker.ts', import.meta.url));
+
+    const onMessageReceived = (e: MessageEvent) => {
+      const { type, payload } = e.data;
+      // Results of superseded previews are dropped.
+      if (payload.id !== jobIdRef.current) return;
+      switch (type) {
+        case 'status':
+          setProgress(payload.percent);
+          break;
+        case 'result':
+          setRefined(payload.depth);
+          setProgress(null);
+          break;
+        case 'error':
+          toast({ variant: "destructive", title: "深度图优化失败", description: payload.message });
+          setProgress(null);
+          break;
+      }
+    };
+
+    workerRef.current.addEventListener('message', onMessageReceived);
+
+    return () => {
+      workerRef.current?.removeEventListener('message', onMessageReceived);
+      workerRef.current?.terminate();
+    };
+  }, [toast]);
+
+  useEffect(() => {
+    if (!source) return;
+    const timeout = setTimeout(() => {
+      const id = ++jobIdRef.current;
+      setProgress(0);
+      workerRef.current?.postMessage({ type: 'refine', payload: { id, depth: source.depth, guide: source.guide, options } });
+    }, PREVIEW_DELAY);
+    return () => clearTimeout(timeout);
+  }, [source, options]);
+
+  useEffect(() => {
+    if (refined && afterCanvasRef.current) {
+      drawDepth(afterCanvasRef.current, refined);
+    }
+  }, [refined]);
+
+  const handleApply = () => {
+    if (!refined) return;
+    onApply(new File([encodeDepthPng(refined)], 'refined-depth-map.png', { type: 'image/png' }));
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="flex-1 min-h-0 flex flex-col gap-4 overflow-y-auto px-1">
+        <div className="relative h-[45vh] rounded-lg bg-muted/30 overflow-hidden">
+          {beforeUrl && <img src={beforeUrl} alt="优化前" className="absolute inset-0 w-full h-full object-contain" />}
+          <canvas
+            ref={afterCanvasRef}
+            className="absolute inset-0 w-full h-full object-contain"
+            style={{ clipPath: `inset(0 0 0 ${split}%)`, visibility: refined ? 'visible' : 'hidden' }}
+          />
+          <div className="absolute inset-y-0 w-px bg-white/80 pointer-events-none" style={{ left: `${split}%` }} />
+          <span className="absolute top-2 left-2 rounded bg-black/50 px-2 py-0.5 text-xs text-white">优化前</span>
+          <span className="absolute top-2 right-2 rounded bg-black/50 px-2 py-0.5 text-xs text-white">优化后</span>
+          {(!source || progress !== null) && (
+            <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex items-center gap-2 rounded bg-black/50 px-2 py-1 text-xs text-white">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              {source ? `正在优化... ${progress}%` : '正在读取...'}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="refine-split-slider" className="text-center">对比位置</Label>
+          <Slider id="refine-split-slider" min={0} max={100} step={1} value={[split]} onValueChange={(value) => setSplit(value[0])} />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="refine-radius-slider" className="text-center">半径: {options.radius}px</Label>
+            <Slider
+              id="refine-radius-slider"
+              min={2}
+              max={48}
+              step={1}
+              value={[options.radius]}
+              onValueChange={(value) => setOptions(prev => ({ ...prev, radius: value[0] }))}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="refine-strength-slider" className="text-center">强度: {Math.round(options.strength * 100)}%</Label>
+            <Slider
+              id="refine-strength-slider"
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={[options.strength]}
+              onValueChange={(value) => setOptions(prev => ({ ...prev, strength: value[0] }))}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          半径越大，越能修正偏离较远的边缘，但细小物体可能被抹平；强度越高，深度边缘越贴合照片中的轮廓。
+        </p>
+      </div>
+
+      <DialogFooter>
+        <Button onClick={handleApply} disabled={!refined || progress !== null} className="w-full">
+          <Wand2 className="mr-2 h-4 w-4" />
+          应用优化
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
+
+/**
+ * Previews edge-aware refinement of a depth map against its photo, with a before/after split, and
+ * passes the refined map to `onApply` as a 16-bit PNG at up to the photo's resolution.
+ */
+export function DepthRefineDialog({ open, onOpenChange, image, depthMap, onApply }: DepthRefineDialogProps) {
+  const handleClose = useCallback(() => onOpenChange(false), [onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>优化深度图边缘</DialogTitle>
+          <DialogDescription>
+            参照照片的轮廓对齐深度图的边缘，并将深度图放大到照片的分辨率，可减少转动视角时主体边缘的拉伸和光晕。
+          </DialogDescription>
+        </DialogHeader>
+        {image && depthMap && (
+          <DepthRefineContent image={image} depthMap={depthMap} onApply={onApply} onClose={handleClose} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
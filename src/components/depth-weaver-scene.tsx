@@ -3,7 +3,23 @@
 
 import { useEffect, useRef, useState, forwardRef, useImperativeHandle, useCallback } from 'react';
 import * as THREE from 'three';
-import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { updateCameraAspect, type SceneCamera } from '@/lib/camera';
+import { buildBackgroundLayer } from '@/lib/layered-depth';
+import { buildAdaptiveMesh } from '@/lib/adaptive-mesh';
+import { exportMesh, type ExportFormat } from '@/lib/mesh-export';
+import { canvasToBlob, downloadBlob } from '@/lib/download';
+import { sampleCameraPath, type CameraKeyframe, type CameraPose, type RecordingOptions } from '@/lib/camera-paths';
+import { createFrameSink, type EncodedVideo, type VideoOutputOptions } from '@/lib/video-encoder';
+import { encodeAnimatedImage, type AnimatedImageOptions } from '@/lib/animated-image';
+import { createStereoRenderer, getEyeCameras, type StereoEye, type StereoExportFormat, type StereoOptions, type StereoRenderer } from '@/lib/stereo';
+import { createMpo } from '@/lib/mpo';
+import { createDepthJpeg } from '@/lib/depth-xmp';
+import { createDepthTexture, loadDepthMap, resizeDepthMap, sampleDepth, type DepthMap } from '@/lib/depth-map';
+import { hasAspectMismatch } from '@/lib/depth-align';
+import { sharpenSubjectEdge } from '@/lib/subject-mask';
+import { getQuiltFileName, getQuiltTileRect, getQuiltTileSize, getQuiltViewCamera, type QuiltOptions } from '@/lib/quilt';
+import { getViewFade, requestImmersiveVRSession, VR_IMAGE_HEIGHT, VR_VIEW_DISTANCE, type XRSessionLike } from '@/lib/webxr';
+import { useToast } from '@/hooks/use-toast';
 
 type RenderMode = 'blur' | 'fill';
 type CameraType = 'perspective' | 'orthographic';
@@ -15,6 +31,8 @@ interface DepthWeaverSceneProps {
   cameraDistance: number;
   orthographicZoom: number;
   meshDetail: number;
+  adaptiveMesh: boolean;
+  triangleBudget: number;
   blurIntensity: number;
   blurOffset: number;
   viewAngleLimit: number;
@@ -24,35 +42,78 @@ interface DepthWeaverSceneProps {
   renderMode: RenderMode;
   selectionRange: number;
   cameraType: CameraType;
+  layeredMesh: boolean;
+  /** Subject mask from background removal, if one was made for this photo. */
+  mask: string | null;
+  popOut: boolean;
+  stereo: StereoOptions;
   onDistanceChange: (distance: number) => void;
   onZoomChange: (zoom: number) => void;
 }
 
 export interface DepthWeaverSceneHandle {
-  handleExport: (format: 'glb') => Promise<void>;
-  startRecording: (duration: number) => Promise<void>;
+  handleExport: (format: ExportFormat) => Promise<void>;
+  startRecording: (options: RecordingOptions) => Promise<void>;
+  renderVideo: (options: RecordingOptions, output: VideoOutputOptions, onProgress?: (progress: number) => void) => Promise<EncodedVideo['format']>;
+  renderAnimatedImage: (options: RecordingOptions, imageOptions: AnimatedImageOptions, onProgress?: (progress: number) => void) => Promise<void>;
+  exportStereo: (format: StereoExportFormat) => Promise<void>;
+  exportDepthJpeg: () => Promise<void>;
+  exportQuilt: (options: QuiltOptions, onProgress?: (progress: number) => void) => Promise<void>;
+  captureKeyframe: () => CameraKeyframe;
+  enterVR: () => Promise<void>;
 }
 
-const getDepthDataFromImage = (imageUrl: string): Promise<ImageData> => {
+const PERSPECTIVE_FOV = 75;
+
+// Depth values below this difference across a few texels are treated as a continuous surface in layered mode.
+const LAYER_CUT_THRESHOLD = 0.05;
+const LAYER_MAX_SIZE = 1024;
+const STEREO_EXPORT_MAX_WIDTH = 2048;
+const EXPORT_JPEG_QUALITY = 0.92;
+// Share of the longer side over which the depth edge is snapped to the subject mask.
+const MASK_EDGE_RADIUS = 0.01;
+// Width of the pop-out border, and of the line drawn along its inner edge, in texture coordinates.
+const POP_OUT_FRAME_INSET = 0.06;
+const POP_OUT_FRAME_LINE = 0.006;
+
+const getImageDataFromUrl = (imageUrl: string, size?: { width: number; height: number }): Promise<ImageData> => {
   return new Promise((resolve, reject) => {
     const image = new Image();
     image.crossOrigin = 'Anonymous';
     image.onload = () => {
+      const width = size?.width ?? image.width;
+      const height = size?.height ?? image.height;
       const canvas = document.createElement('canvas');
-      canvas.width = image.width;
-      canvas.height = image.height;
+      canvas.width = width;
+      canvas.height = height;
       const context = canvas.getContext('2d');
       if (!context) {
         return reject(new Error('Failed to get canvas context'));
       }
-      context.drawImage(image, 0, 0);
-      resolve(context.getImageData(0, 0, image.width, image.height));
+      context.drawImage(image, 0, 0, width, height);
+      resolve(context.getImageData(0, 0, width, height));
     };
     image.onerror = (err) => reject(err);
     image.src = imageUrl;
   });
 };
 
+const createMeshGeometry = (meshDetail: number, adaptiveMesh: boolean, triangleBudget: number, depthData?: DepthMap) => {
+  if (!adaptiveMesh || !depthData) {
+    return new THREE.PlaneGeometry(2, 2, meshDetail, meshDetail);
+  }
+  const { positions, normals, uvs, indices } = buildAdaptiveMesh(depthData, triangleBudget);
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('normal', new THREE.BufferAttribute(normals, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.setIndex(new THREE.BufferAttribute(indices, 1));
+  return geometry;
+};
+
+const getGeometryKey = (meshDetail: number, adaptiveMesh: boolean, triangleBudget: number) =>
+  adaptiveMesh ? `adaptive-${triangleBudget}` : `uniform-${meshDetail}`;
+
 const bakingVertexShader = `
   varying vec2 vUv;
   void main() {
@@ -68,17 +129,49 @@ const bakingFragmentShader = `
   uniform float uBlurOffset;
   uniform vec2 uResolution;
   uniform int uRenderMode;
+  uniform float uSelectionRange;
+  uniform sampler2D uMask;
+  uniform bool uHasMask;
 
   varying vec2 vUv;
 
+  const int MAX_SELECTION_RANGE = 20;
+
   float getDepth(vec2 uv) {
     return texture2D(uDepthMap, uv).r;
   }
+
+  float getMask(vec2 uv) {
+    return texture2D(uMask, uv).r;
+  }
   
   void main() {
     float pixelSizeX = 1.0 / uResolution.x;
     float pixelSizeY = 1.0 / uResolution.y;
 
+    // With a subject mask, fill mode paints the background just outside the subject's outline,
+    // which is what gets revealed behind it, from background pixels farther out.
+    if (uRenderMode == 1 && uHasMask && getMask(vUv) < 0.5) {
+      vec2 maskGradient = vec2(
+        getMask(vUv + vec2(2.0 * pixelSizeX, 0.0)) - getMask(vUv - vec2(2.0 * pixelSizeX, 0.0)),
+        getMask(vUv + vec2(0.0, 2.0 * pixelSizeY)) - getMask(vUv - vec2(0.0, 2.0 * pixelSizeY))
+      );
+      if (length(maskGradient) > 0.1) {
+        vec2 stepUV = -normalize(maskGradient) * vec2(pixelSizeX, pixelSizeY);
+        vec4 filledColor = vec4(0.0);
+        float totalWeight = 0.0;
+        for (int i = 1; i <= MAX_SELECTION_RANGE; i++) {
+          if (float(i) > uSelectionRange) break;
+          vec2 sampleUV = vUv + stepUV * float(i);
+          float weight = 1.0 - getMask(sampleUV);
+          filledColor += texture2D(uTexture, sampleUV) * weight;
+          totalWeight += weight;
+        }
+        gl_FragColor = totalWeight > 0.0 ? filledColor / totalWeight : texture2D(uTexture, vUv);
+        return;
+      }
+    }
+
     float depth = getDepth(vUv);
     float depthN = getDepth(vUv + vec2(0.0, pixelSizeY));
     float depthS = getDepth(vUv - vec2(0.0, pixelSizeY));
@@ -121,7 +214,31 @@ const bakingFragmentShader = `
           gl_FragColor = texture2D(uTexture, vUv);
         }
       } else { // Fill Mode
-        discard;
+        // Depth grows towards the camera, so the occluded background lies against the gradient.
+        vec2 stepUV = -normalize(vec2(dx, dy) + vec2(1e-6)) * vec2(pixelSizeX, pixelSizeY);
+
+        float farthestDepth = depth;
+        for (int i = 1; i <= MAX_SELECTION_RANGE; i++) {
+          if (float(i) > uSelectionRange) break;
+          farthestDepth = min(farthestDepth, getDepth(vUv + stepUV * float(i)));
+        }
+
+        vec4 filledColor = vec4(0.0);
+        float totalWeight = 0.0;
+        for (int i = 1; i <= MAX_SELECTION_RANGE; i++) {
+          if (float(i) > uSelectionRange) break;
+          vec2 sampleUV = vUv + stepUV * float(i);
+          float sampleDepth = getDepth(sampleUV);
+          float weight = 1.0 - smoothstep(0.0, 0.02, sampleDepth - farthestDepth);
+          filledColor += texture2D(uTexture, sampleUV) * weight;
+          totalWeight += weight;
+        }
+
+        if (totalWeight > 0.0) {
+          gl_FragColor = filledColor / totalWeight;
+        } else {
+          gl_FragColor = texture2D(uTexture, vUv);
+        }
       }
     } else {
       gl_FragColor = texture2D(uTexture, vUv);
@@ -132,13 +249,23 @@ const bakingFragmentShader = `
 const liveVertexShader = `
   uniform sampler2D uDepthMap;
   uniform float uDepthMultiplier;
+  uniform float uDepthOffset;
+  uniform vec2 uTexelSize;
   varying vec2 vUv;
+  varying float vEdge;
   
   void main() {
     vUv = uv;
     vec4 depthColor = texture2D(uDepthMap, uv);
     float depth = depthColor.r;
-    float displacement = depth * uDepthMultiplier;
+
+    float depthE = texture2D(uDepthMap, uv + vec2(uTexelSize.x, 0.0)).r;
+    float depthW = texture2D(uDepthMap, uv - vec2(uTexelSize.x, 0.0)).r;
+    float depthN = texture2D(uDepthMap, uv + vec2(0.0, uTexelSize.y)).r;
+    float depthS = texture2D(uDepthMap, uv - vec2(0.0, uTexelSize.y)).r;
+    vEdge = max(abs(depthE - depthW), abs(depthN - depthS));
+
+    float displacement = depth * uDepthMultiplier + uDepthOffset;
     vec3 newPosition = position + normal * displacement;
     gl_Position = projectionMatrix * modelViewMatrix * vec4(newPosition, 1.0);
   }
@@ -146,13 +273,59 @@ const liveVertexShader = `
 
 const liveFragmentShader = `
   uniform sampler2D uBakedTexture;
+  uniform float uCutThreshold;
+  uniform float uOpacity;
+  uniform sampler2D uMask;
+  uniform bool uHasMask;
+  uniform float uFrameInset;
+  uniform float uFrameLine;
   varying vec2 vUv;
+  varying float vEdge;
 
   void main() {
+    // Triangles spanning a depth discontinuity are cut so the background layer shows through.
+    if (uCutThreshold > 0.0 && vEdge > uCutThreshold) discard;
+
+    // Pop-out: everything outside an inset frame is dropped except the subject, which then
+    // appears to step out of the picture over the frame line.
+    if (uFrameInset > 0.0) {
+      float frameDistance = min(min(vUv.x, 1.0 - vUv.x), min(vUv.y, 1.0 - vUv.y));
+      bool isSubject = uHasMask && texture2D(uMask, vUv).r >= 0.5;
+      if (!isSubject) {
+        if (frameDistance < uFrameInset) discard;
+        if (frameDistance < uFrameInset + uFrameLine) {
+          gl_FragColor = vec4(1.0, 1.0, 1.0, uOpacity);
+          return;
+        }
+      }
+    }
+
     gl_FragColor = texture2D(uBakedTexture, vUv);
+    gl_FragColor.a *= uOpacity;
   }
 `;
 
+const createLiveMaterial = (bakedTexture: THREE.Texture, depthTexture: THREE.Texture, depthMultiplier: number, depthOffset = 0) => {
+  const { width, height } = depthTexture.image;
+  return new THREE.ShaderMaterial({
+    uniforms: {
+      uBakedTexture: { value: bakedTexture },
+      uDepthMap: { value: depthTexture },
+      uDepthMultiplier: { value: depthMultiplier },
+      uDepthOffset: { value: depthOffset },
+      uTexelSize: { value: new THREE.Vector2(2 / width, 2 / height) },
+      uCutThreshold: { value: 0 },
+      uOpacity: { value: 1 },
+      uMask: { value: null },
+      uHasMask: { value: false },
+      uFrameInset: { value: 0 },
+      uFrameLine: { value: POP_OUT_FRAME_LINE },
+    },
+    vertexShader: liveVertexShader,
+    fragmentShader: liveFragmentShader,
+  });
+};
+
 
 export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSceneProps>(({ 
   image, 
@@ -161,6 +334,8 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
   cameraDistance, 
   orthographicZoom,
   meshDetail, 
+  adaptiveMesh,
+  triangleBudget,
   blurIntensity, 
   blurOffset,
   viewAngleLimit, 
@@ -170,25 +345,40 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
   renderMode,
   selectionRange,
   cameraType,
+  layeredMesh,
+  mask,
+  popOut,
+  stereo,
   onDistanceChange,
   onZoomChange
 }, ref) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
 
   const rendererRef = useRef<THREE.WebGLRenderer>();
+  const stereoRendererRef = useRef<StereoRenderer>();
   const sceneRef = useRef<THREE.Scene>();
   const cameraRef = useRef<THREE.PerspectiveCamera | THREE.OrthographicCamera>();
   const meshRef = useRef<THREE.Mesh>();
   
   const colorTextureRef = useRef<THREE.Texture>();
   const depthTextureRef = useRef<THREE.Texture>();
+  const depthDataRef = useRef<DepthMap>();
+  const maskTextureRef = useRef<THREE.Texture>();
+  const geometryKeyRef = useRef<string>();
 
   const liveMaterialRef = useRef<THREE.ShaderMaterial>();
   const bakingMaterialRef = useRef<THREE.ShaderMaterial>();
   const bakedTextureRef = useRef<THREE.WebGLRenderTarget>();
 
+  const backgroundMeshRef = useRef<THREE.Mesh>();
+  const backgroundMaterialRef = useRef<THREE.ShaderMaterial>();
+  const backgroundTexturesRef = useRef<THREE.Texture[]>([]);
+  const isBuildingBackgroundRef = useRef(false);
+
   const maxAngleRef = useRef(THREE.MathUtils.degToRad(viewAngleLimit));
+  const stereoRef = useRef(stereo);
   
   const isDraggingRef = useRef(false);
   const previousPointerPosition = useRef({ x: 0, y: 0 });
@@ -198,23 +388,32 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
   const renderRequestedRef = useRef(false);
   const useSensorRef = useRef(useSensor);
   const isRecordingRef = useRef(false);
+  const isImmersiveRef = useRef(false);
+  const xrSessionRef = useRef<XRSessionLike>();
 
   useEffect(() => {
     useSensorRef.current = useSensor;
   }, [useSensor]);
 
   const requestRenderIfNotRequested = useCallback(() => {
+    // While a WebXR session is running the headset drives rendering through its own frame loop.
+    if (isImmersiveRef.current) return;
     if (!renderRequestedRef.current) {
       renderRequestedRef.current = true;
       requestAnimationFrame(() => {
         renderRequestedRef.current = false;
-        if (rendererRef.current && sceneRef.current && cameraRef.current) {
-          rendererRef.current.render(sceneRef.current, cameraRef.current);
+        if (stereoRendererRef.current && sceneRef.current && cameraRef.current) {
+          stereoRendererRef.current.render(sceneRef.current, cameraRef.current, stereoRef.current, null);
         }
       });
     }
   }, []);
 
+  useEffect(() => {
+    stereoRef.current = stereo;
+    requestRenderIfNotRequested();
+  }, [stereo, requestRenderIfNotRequested]);
+
   const runBakePass = useCallback(() => {
     if (!rendererRef.current || !bakingMaterialRef.current || !bakedTextureRef.current) return;
   
@@ -232,16 +431,115 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
     requestRenderIfNotRequested();
   }, [requestRenderIfNotRequested]);
 
+  const getCameraPose = (): CameraPose => ({
+    rotationX: meshRef.current?.rotation.x ?? 0,
+    rotationY: meshRef.current?.rotation.y ?? 0,
+    distance: cameraDistance,
+    zoom: orthographicZoom,
+    fov: cameraRef.current?.type === 'PerspectiveCamera' ? (cameraRef.current as THREE.PerspectiveCamera).fov : PERSPECTIVE_FOV,
+  });
+
+  const applyCameraPose = (pose: CameraPose) => {
+    if (meshRef.current) {
+      meshRef.current.rotation.x = pose.rotationX;
+      meshRef.current.rotation.y = pose.rotationY;
+    }
+    const camera = cameraRef.current;
+    if (camera) {
+      if (camera.type === 'PerspectiveCamera') {
+        (camera as THREE.PerspectiveCamera).position.z = pose.distance;
+        (camera as THREE.PerspectiveCamera).fov = pose.fov;
+      } else {
+        (camera as THREE.OrthographicCamera).zoom = pose.zoom;
+      }
+      camera.updateProjectionMatrix();
+    }
+  };
+
+  // Renders the scene at a fixed output size, independent of the window, composited over the
+  // same background the page shows behind the canvas.
+  const createFrameRenderer = (width: number, height: number) => {
+    const renderer = rendererRef.current!;
+    const renderTarget = new THREE.WebGLRenderTarget(width, height, {
+      format: THREE.RGBAFormat,
+      type: THREE.UnsignedByteType,
+      samples: 4,
+    });
+    const buffer = new Uint8Array(width * height * 4);
+    const imageData = new ImageData(width, height);
+
+    const createCanvas = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Failed to get 2d context from canvas');
+      }
+      return { canvas, context };
+    };
+    const frame = createCanvas();
+    const output = createCanvas();
+
+    let background: HTMLCanvasElement | null = null;
+    const colorImage = colorTextureRef.current?.image;
+    if (backgroundMode === 'blur' && colorImage) {
+      const { canvas, context } = createCanvas();
+      const coverScale = Math.max(width / colorImage.width, height / colorImage.height) * 1.1;
+      const drawWidth = colorImage.width * coverScale;
+      const drawHeight = colorImage.height * coverScale;
+      context.filter = `blur(${Math.round(36 * height / window.innerHeight)}px)`;
+      context.drawImage(colorImage, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+      background = canvas;
+    }
+
+    return {
+      // Renders `camera` (the live camera by default) in the given stereo layout, or a single eye
+      // of the stereo pair when `eye` is set.
+      render({ camera = cameraRef.current!, stereo = stereoRef.current, eye }: { camera?: SceneCamera; stereo?: StereoOptions; eye?: StereoEye } = {}) {
+        const frameCamera = camera.clone();
+        updateCameraAspect(frameCamera, width / height);
+
+        if (eye) {
+          const [left, right] = getEyeCameras(frameCamera, stereo, width / height);
+          renderer.setRenderTarget(renderTarget);
+          renderer.clear();
+          renderer.render(sceneRef.current!, eye === 'left' ? left : right);
+          renderer.setRenderTarget(null);
+        } else {
+          stereoRendererRef.current!.render(sceneRef.current!, frameCamera, stereo, renderTarget);
+        }
+        renderer.readRenderTargetPixels(renderTarget, 0, 0, width, height, buffer);
+
+        // WebGL reads back the bottom row first.
+        const rowSize = width * 4;
+        for (let y = 0; y < height; y++) {
+          imageData.data.set(buffer.subarray((height - 1 - y) * rowSize, (height - y) * rowSize), y * rowSize);
+        }
+        frame.context.putImageData(imageData, 0, 0);
+
+        output.context.clearRect(0, 0, width, height);
+        if (background) {
+          output.context.drawImage(background, 0, 0);
+        }
+        output.context.drawImage(frame.canvas, 0, 0);
+        return output.canvas;
+      },
+      dispose() {
+        renderTarget.dispose();
+      },
+    };
+  };
+
   useImperativeHandle(ref, () => ({
-    async handleExport(format: 'glb') {
-      if (!meshRef.current || !rendererRef.current || !sceneRef.current || !cameraRef.current || !bakedTextureRef.current || format !== 'glb') {
+    async handleExport(format: ExportFormat) {
+      if (!meshRef.current || !rendererRef.current || !sceneRef.current || !cameraRef.current || !bakedTextureRef.current) {
         throw new Error('Export is not ready or format is not supported.');
       }
     
       setIsLoading(true);
     
       try {
-        const exporter = new GLTFExporter();
         const originalMesh = meshRef.current;
         const renderer = rendererRef.current;
             
@@ -278,20 +576,14 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
         bakingScene.remove(bakingMesh);
         tempBakingMaterial.dispose();
     
-        const depthData = await getDepthDataFromImage(depthMap);
-        const { width: depthWidth, height: depthHeight } = depthData;
+        const depthData = depthDataRef.current ?? await loadDepthMap(depthMap);
         
         const clonedGeometry = originalMesh.geometry.clone();
         const positionAttribute = clonedGeometry.getAttribute('position');
         const uvAttribute = clonedGeometry.getAttribute('uv');
     
         for (let i = 0; i < positionAttribute.count; i++) {
-          const u = uvAttribute.getX(i);
-          const v = 1 - uvAttribute.getY(i);
-          const pixelX = Math.floor(u * (depthWidth - 1));
-          const pixelY = Math.floor(v * (depthHeight - 1));
-          const pixelIndex = (pixelY * depthWidth + pixelX) * 4;
-          const depth = depthData.data[pixelIndex] / 255.0; 
+          const depth = sampleDepth(depthData, uvAttribute.getX(i), 1 - uvAttribute.getY(i));
           const displacement = depth * depthMultiplier;
           positionAttribute.setZ(i, originalMesh.geometry.attributes.position.getZ(i) + displacement);
         }
@@ -299,58 +591,255 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
         
         const buffer = new Uint8Array(width * height * 4);
         renderer.readRenderTargetPixels(tempRenderTarget, 0, 0, width, height, buffer);
+        tempRenderTarget.dispose();
+
+        try {
+          const { blob, fileName } = await exportMesh(format, clonedGeometry, { data: buffer, width, height }, originalMesh.scale, `scene-${Date.now()}`);
+          downloadBlob(blob, fileName);
+        } finally {
+          clonedGeometry.dispose();
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    async exportStereo(format: StereoExportFormat) {
+      const colorImage = colorTextureRef.current?.image;
+      if (!rendererRef.current || !sceneRef.current || !cameraRef.current || !meshRef.current || !colorImage) {
+        throw new Error('Export is not ready.');
+      }
 
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        const context = canvas.getContext('2d');
-        if (!context) {
+      const width = Math.min(STEREO_EXPORT_MAX_WIDTH, colorImage.width);
+      const height = Math.round(width * colorImage.height / colorImage.width);
+      const frameRenderer = createFrameRenderer(width, height);
+      const baseName = `stereo-${Date.now()}`;
+
+      try {
+        // Each eye is encoded before the next render reuses the frame canvas.
+        const eyes: Blob[] = [];
+        const pair = document.createElement('canvas');
+        pair.width = width * 2;
+        pair.height = height;
+        const pairContext = pair.getContext('2d');
+        if (!pairContext) {
           throw new Error('Failed to get 2d context from canvas');
         }
-        const imageData = new ImageData(new Uint8ClampedArray(buffer.buffer), width, height);
-        context.putImageData(imageData, 0, 0);
+        for (const eye of ['left', 'right'] as const) {
+          const canvas = frameRenderer.render({ eye });
+          pairContext.drawImage(canvas, eye === 'left' ? 0 : width, 0);
+          if (format === 'mpo') {
+            eyes.push(await canvasToBlob(canvas, 'image/jpeg', EXPORT_JPEG_QUALITY));
+          }
+        }
+
+        if (format === 'mpo') {
+          const [left, right] = await Promise.all(eyes.map(async blob => new Uint8Array(await blob.arrayBuffer())));
+          downloadBlob(createMpo(left, right), `${baseName}.mpo`);
+        } else {
+          downloadBlob(await canvasToBlob(pair, 'image/jpeg', EXPORT_JPEG_QUALITY), `${baseName}.jpg`);
+        }
+      } finally {
+        frameRenderer.dispose();
+        requestRenderIfNotRequested();
+      }
+    },
+    async exportDepthJpeg() {
+      const colorImage = colorTextureRef.current?.image;
+      if (!colorImage) {
+        throw new Error('Export is not ready.');
+      }
 
-        const canvasTexture = new THREE.CanvasTexture(canvas);
-        canvasTexture.flipY = false;
-        canvasTexture.needsUpdate = true;
+      const canvas = document.createElement('canvas');
+      canvas.width = colorImage.width;
+      canvas.height = colorImage.height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Failed to get 2d context from canvas');
+      }
+      context.drawImage(colorImage, 0, 0);
 
-        tempRenderTarget.dispose();
-    
-        return new Promise<void>((resolve, reject) => {
-          const exportMaterial = new THREE.MeshBasicMaterial({ map: canvasTexture });
-          const exportMesh = new THREE.Mesh(clonedGeometry, exportMaterial);
-          exportMesh.scale.copy(originalMesh.scale);
-    
-          exporter.parse(
-            exportMesh,
-            (gltf) => {
-              const blob = new Blob([gltf as ArrayBuffer], { type: 'model/gltf-binary' });
-              const url = URL.createObjectURL(blob);
-              const a = document.createElement('a');
-              a.href = url;
-              a.download = `scene-${Date.now()}.glb`;
-              a.click();
-              URL.revokeObjectURL(url);
-              canvasTexture.dispose();
-              exportMaterial.dispose();
-              clonedGeometry.dispose();
-              resolve();
-            },
-            (error) => {
-              console.error('An error happened during parsing', error);
-              canvasTexture.dispose();
-              exportMaterial.dispose();
-              clonedGeometry.dispose();
-              reject(new Error('Failed to export GLB.'));
-            },
-            { binary: true }
-          );
+      const [color, depthData] = await Promise.all([
+        canvasToBlob(canvas, 'image/jpeg', EXPORT_JPEG_QUALITY),
+        depthDataRef.current ?? loadDepthMap(depthMap),
+      ]);
+      downloadBlob(await createDepthJpeg(color, depthData), `photo-${Date.now()}.jpg`);
+    },
+    async exportQuilt(options: QuiltOptions, onProgress?: (progress: number) => void) {
+      if (!rendererRef.current || !sceneRef.current || !cameraRef.current || !meshRef.current) {
+        throw new Error('Export is not ready.');
+      }
+
+      const tile = getQuiltTileSize(options);
+      const views = Math.min(options.views, options.columns * options.rows);
+      const quilt = document.createElement('canvas');
+      quilt.width = tile.width * options.columns;
+      quilt.height = tile.height * options.rows;
+      const quiltContext = quilt.getContext('2d');
+      if (!quiltContext) {
+        throw new Error('Failed to get 2d context from canvas');
+      }
+
+      const frameRenderer = createFrameRenderer(tile.width, tile.height);
+      const mono: StereoOptions = { ...stereoRef.current, mode: 'off' };
+      try {
+        for (let i = 0; i < views; i++) {
+          const rect = getQuiltTileRect(i, options);
+          const canvas = frameRenderer.render({ camera: getQuiltViewCamera(cameraRef.current, i, { ...options, views }), stereo: mono });
+          quiltContext.drawImage(canvas, rect.x, rect.y);
+          onProgress?.((i + 1) / views);
+          // Yield so the progress indicator can update between views.
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+        downloadBlob(await canvasToBlob(quilt), getQuiltFileName(`quilt-${Date.now()}`, options));
+      } finally {
+        frameRenderer.dispose();
+        requestRenderIfNotRequested();
+      }
+    },
+    captureKeyframe() {
+      return getCameraPose();
+    },
+    async enterVR() {
+      const renderer = rendererRef.current;
+      const mesh = meshRef.current;
+      if (!renderer || !sceneRef.current || !cameraRef.current || !mesh) {
+        throw new Error('Scene is not ready.');
+      }
+      if (isImmersiveRef.current || isRecordingRef.current) {
+        throw new Error('Scene is busy.');
+      }
+
+      const session = await requestImmersiveVRSession();
+      const originalPose = getCameraPose();
+      const originalPosition = mesh.position.clone();
+      const originalScale = mesh.scale.clone();
+      const getMaterials = () => [liveMaterialRef.current, backgroundMaterialRef.current].filter((material): material is THREE.ShaderMaterial => !!material);
+
+      isImmersiveRef.current = true;
+      xrSessionRef.current = session;
+
+      // The 'local' reference space starts at the viewer's head, so the image is placed straight ahead at eye level.
+      mesh.rotation.set(0, 0, 0);
+      mesh.position.set(0, 0, -VR_VIEW_DISTANCE);
+      mesh.scale.multiplyScalar(VR_IMAGE_HEIGHT / 2);
+      getMaterials().forEach(material => { material.transparent = true; });
+
+      session.addEventListener('end', () => {
+        renderer.setAnimationLoop(null);
+        renderer.xr.enabled = false;
+        mesh.position.copy(originalPosition);
+        mesh.scale.copy(originalScale);
+        getMaterials().forEach(material => {
+          material.transparent = false;
+          material.uniforms.uOpacity.value = 1;
         });
+        isImmersiveRef.current = false;
+        xrSessionRef.current = undefined;
+        applyCameraPose(originalPose);
+        requestRenderIfNotRequested();
+      }, { once: true });
+
+      renderer.xr.enabled = true;
+      renderer.xr.setReferenceSpaceType('local');
+      try {
+        await renderer.xr.setSession(session);
+      } catch (error) {
+        await session.end();
+        throw error;
+      }
+
+      const viewerPosition = new THREE.Vector3();
+      renderer.setAnimationLoop(() => {
+        if (!sceneRef.current || !cameraRef.current) return;
+        renderer.xr.getCamera().getWorldPosition(viewerPosition);
+        const opacity = getViewFade(viewerPosition, mesh, maxAngleRef.current);
+        getMaterials().forEach(material => { material.uniforms.uOpacity.value = opacity; });
+        renderer.render(sceneRef.current, cameraRef.current);
+      });
+    },
+    async renderVideo(options: RecordingOptions, output: VideoOutputOptions, onProgress?: (progress: number) => void) {
+      if (!rendererRef.current || !sceneRef.current || !cameraRef.current || !meshRef.current) {
+        throw new Error('Recording is not ready.');
+      }
+      if (isRecordingRef.current) {
+        throw new Error('Recording is already in progress.');
+      }
+
+      isRecordingRef.current = true;
+      const originalPose = getCameraPose();
+      // H.264 only accepts even dimensions.
+      const width = Math.round(output.width / 2) * 2;
+      const height = Math.round(output.height / 2) * 2;
+      const frameRenderer = createFrameRenderer(width, height);
+
+      try {
+        const sink = await createFrameSink(output.container, width, height, options.fps, `recording-${Date.now()}`);
+        const framesPerLoop = Math.max(2, Math.round(options.duration / 1000 * options.fps));
+        const totalFrames = framesPerLoop * Math.max(1, options.loops);
+
+        for (let i = 0; i < totalFrames; i++) {
+          if (!meshRef.current || !isRecordingRef.current) {
+            throw new Error('Recording was interrupted.');
+          }
+          const loopProgress = (i % framesPerLoop) / (framesPerLoop - 1);
+          applyCameraPose(sampleCameraPath(options, loopProgress, originalPose, maxAngleRef.current));
+          await sink.addFrame(frameRenderer.render(), i);
+          onProgress?.((i + 1) / totalFrames);
+        }
+
+        const video = await sink.finish();
+        downloadBlob(video.blob, video.fileName);
+        return video.format;
       } finally {
-        setIsLoading(false);
+        frameRenderer.dispose();
+        applyCameraPose(originalPose);
+        requestRenderIfNotRequested();
+        isRecordingRef.current = false;
       }
     },
-    async startRecording(duration: number) {
+    async renderAnimatedImage(options: RecordingOptions, imageOptions: AnimatedImageOptions, onProgress?: (progress: number) => void) {
+      const colorImage = colorTextureRef.current?.image;
+      if (!rendererRef.current || !sceneRef.current || !cameraRef.current || !meshRef.current || !colorImage) {
+        throw new Error('Recording is not ready.');
+      }
+      if (isRecordingRef.current) {
+        throw new Error('Recording is already in progress.');
+      }
+
+      isRecordingRef.current = true;
+      const originalPose = getCameraPose();
+      const width = imageOptions.width;
+      const height = Math.round(width * colorImage.height / colorImage.width);
+      const frameRenderer = createFrameRenderer(width, height);
+
+      try {
+        const frameCount = Math.max(2, imageOptions.frameCount);
+        const frames: ImageData[] = [];
+        for (let i = 0; i < frameCount; i++) {
+          if (!meshRef.current || !isRecordingRef.current) {
+            throw new Error('Recording was interrupted.');
+          }
+          // A ping-pong loop turns around on the last frame, a plain loop wraps back to the first one.
+          const progress = imageOptions.pingPong ? i / (frameCount - 1) : i / frameCount;
+          applyCameraPose(sampleCameraPath(options, progress, originalPose, maxAngleRef.current));
+          const canvas = frameRenderer.render();
+          frames.push(canvas.getContext('2d')!.getImageData(0, 0, width, height));
+          onProgress?.((i + 1) / frameCount * 0.8);
+          // Yield so the progress indicator can update between frames.
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        const file = encodeAnimatedImage(frames, options.duration / frameCount, imageOptions, `recording-${Date.now()}`);
+        onProgress?.(1);
+        downloadBlob(file.blob, file.fileName);
+      } finally {
+        frameRenderer.dispose();
+        applyCameraPose(originalPose);
+        requestRenderIfNotRequested();
+        isRecordingRef.current = false;
+      }
+    },
+    async startRecording(options: RecordingOptions) {
       if (!mountRef.current || !rendererRef.current || !meshRef.current) {
         throw new Error('Recording is not ready.');
       }
@@ -359,14 +848,19 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
       }
 
       isRecordingRef.current = true;
-      const originalRotation = meshRef.current.rotation.clone();
+      const originalPose = getCameraPose();
 
       const animateAndRecord = async () => {
-          const TARGET_FPS = 30;
-          const totalFrames = duration / 1000 * TARGET_FPS;
+          const framesPerLoop = Math.max(2, Math.round(options.duration / 1000 * options.fps));
+          const totalFrames = framesPerLoop * Math.max(1, options.loops);
           const canvas = rendererRef.current!.domElement;
-          const stream = canvas.captureStream(TARGET_FPS);
-          const recorder = new MediaRecorder(stream, { mimeType: 'video/webm; codecs=vp9' });
+          const stream = canvas.captureStream(options.fps);
+          // Safari only records MP4, so use the first container the browser accepts.
+          const mimeType = ['video/webm; codecs=vp9', 'video/webm', 'video/mp4'].find(type => MediaRecorder.isTypeSupported(type));
+          if (!mimeType) {
+            throw new Error('MediaRecorder is not supported in this browser.');
+          }
+          const recorder = new MediaRecorder(stream, { mimeType });
       
           const recordingPromise = new Promise<void>((resolve, reject) => {
               const chunks: Blob[] = [];
@@ -374,13 +868,9 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
                   if (e.data.size > 0) chunks.push(e.data);
               };
               recorder.onstop = () => {
-                  const blob = new Blob(chunks, { type: 'video/webm' });
-                  const url = URL.createObjectURL(blob);
-                  const a = document.createElement('a');
-                  a.href = url;
-                  a.download = `recording-${Date.now()}.webm`;
-                  a.click();
-                  URL.revokeObjectURL(url);
+                  const type = mimeType.split(';')[0];
+                  const blob = new Blob(chunks, { type });
+                  downloadBlob(blob, `recording-${Date.now()}.${type === 'video/mp4' ? 'mp4' : 'webm'}`);
                   stream.getTracks().forEach(track => track.stop());
                   resolve();
               };
@@ -392,35 +882,17 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
           });
 
           recorder.start();
-
-          if (meshRef.current) {
-            meshRef.current.rotation.set(0, 0, 0);
-            requestRenderIfNotRequested();
-          }
       
           for (let i = 0; i < totalFrames; i++) {
               if (!meshRef.current) break;
 
-              const linearProgress = i / (totalFrames - 1);
-              
-              const easeInOutSine = (t: number) => -(Math.cos(Math.PI * t) - 1) / 2;
-              const easedProgress = easeInOutSine(linearProgress);
+              const loopProgress = (i % framesPerLoop) / (framesPerLoop - 1);
+              applyCameraPose(sampleCameraPath(options, loopProgress, originalPose, maxAngleRef.current));
               
-              const maxAngle = maxAngleRef.current;
-              
-              // Calculate radius: starts at 0, goes to maxAngle, then back to 0
-              const radius = Math.sin(linearProgress * Math.PI) * maxAngle;
-              
-              // Calculate angle: spins 720 degrees (2 full circles)
-              const angle = easedProgress * Math.PI * 4;
-
-              meshRef.current.rotation.y = Math.sin(angle) * radius;
-              meshRef.current.rotation.x = Math.cos(angle) * radius;
-              
-              if (rendererRef.current && sceneRef.current && cameraRef.current) {
-                rendererRef.current.render(sceneRef.current, cameraRef.current);
+              if (stereoRendererRef.current && sceneRef.current && cameraRef.current) {
+                stereoRendererRef.current.render(sceneRef.current, cameraRef.current, stereoRef.current, null);
               }
-              await new Promise(resolve => setTimeout(resolve, 33));
+              await new Promise(resolve => setTimeout(resolve, 1000 / options.fps));
           }
       
           if (recorder.state === "recording") {
@@ -436,10 +908,8 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
         console.error("Recording failed:", error);
         throw error;
       } finally {
-        if (meshRef.current) {
-          meshRef.current.rotation.copy(originalRotation);
-          requestRenderIfNotRequested();
-        }
+        applyCameraPose(originalPose);
+        requestRenderIfNotRequested();
         isRecordingRef.current = false;
       }
     },
@@ -453,6 +923,9 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
     if (liveMaterialRef.current) {
         liveMaterialRef.current.uniforms.uDepthMultiplier.value = depthMultiplier;
     }
+    if (backgroundMaterialRef.current) {
+        backgroundMaterialRef.current.uniforms.uDepthMultiplier.value = depthMultiplier;
+    }
     if (cameraRef.current) {
         if (cameraRef.current.type === 'PerspectiveCamera') {
             (cameraRef.current as THREE.PerspectiveCamera).position.z = cameraDistance;
@@ -469,21 +942,97 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
   }, [depthMultiplier, cameraDistance, orthographicZoom, backgroundMode, backgroundColor, requestRenderIfNotRequested]);
 
   useEffect(() => {
-    if (meshRef.current && meshRef.current.geometry.parameters.widthSegments !== meshDetail) {
+    const geometryKey = getGeometryKey(meshDetail, adaptiveMesh, triangleBudget);
+    if (meshRef.current && geometryKeyRef.current !== geometryKey) {
       meshRef.current.geometry.dispose();
-      meshRef.current.geometry = new THREE.PlaneGeometry(2, 2, meshDetail, meshDetail);
+      meshRef.current.geometry = createMeshGeometry(meshDetail, adaptiveMesh, triangleBudget, depthDataRef.current);
+      geometryKeyRef.current = geometryKey;
+      if (backgroundMeshRef.current) {
+        backgroundMeshRef.current.geometry = meshRef.current.geometry;
+      }
       requestRenderIfNotRequested();
     }
-  }, [meshDetail, requestRenderIfNotRequested]);
+  }, [meshDetail, adaptiveMesh, triangleBudget, requestRenderIfNotRequested]);
+
+  const buildBackgroundMesh = useCallback(async () => {
+    const plane = meshRef.current;
+    const depth = depthDataRef.current;
+    const renderer = rendererRef.current;
+    if (!plane || !depth || !renderer || isBuildingBackgroundRef.current) return;
+    isBuildingBackgroundRef.current = true;
+
+    try {
+      const scale = Math.min(1, LAYER_MAX_SIZE / Math.max(depth.width, depth.height));
+      const size = {
+        width: Math.max(1, Math.round(depth.width * scale)),
+        height: Math.max(1, Math.round(depth.height * scale)),
+      };
+      const depthData = resizeDepthMap(depth, size.width, size.height);
+      const colorData = await getImageDataFromUrl(image, size);
+      // The scene may have been torn down while the image was decoding.
+      if (meshRef.current !== plane) return;
+
+      const radius = Math.max(2, Math.round(Math.max(size.width, size.height) * 0.015));
+      const layer = buildBackgroundLayer(depthData, colorData, radius);
+
+      const createLayerTexture = (data: Uint8Array) => {
+        const texture = new THREE.DataTexture(data, layer.width, layer.height, THREE.RGBAFormat);
+        texture.flipY = true;
+        texture.minFilter = THREE.LinearFilter;
+        texture.magFilter = THREE.LinearFilter;
+        texture.needsUpdate = true;
+        return texture;
+      };
+      const layerDepthTexture = createDepthTexture({ data: layer.depth, width: layer.width, height: layer.height }, renderer);
+      const layerColorTexture = createLayerTexture(layer.color);
+      backgroundTexturesRef.current = [layerDepthTexture, layerColorTexture];
+
+      // Sit slightly behind the foreground layer so overlapping regions don't z-fight.
+      const material = createLiveMaterial(layerColorTexture, layerDepthTexture, plane.material.uniforms.uDepthMultiplier.value, -0.01);
+      // The subject is removed from this layer, so no mask: the whole border is dropped in pop-out mode.
+      material.uniforms.uFrameInset.value = plane.material.uniforms.uFrameInset.value;
+      backgroundMaterialRef.current = material;
+
+      const backgroundMesh = new THREE.Mesh(plane.geometry, material);
+      plane.add(backgroundMesh);
+      backgroundMeshRef.current = backgroundMesh;
+      requestRenderIfNotRequested();
+    } catch (error) {
+      console.error('Failed to build background layer', error);
+    } finally {
+      isBuildingBackgroundRef.current = false;
+    }
+  }, [image, requestRenderIfNotRequested]);
+
+  useEffect(() => {
+    if (isLoading || !liveMaterialRef.current) return;
+    liveMaterialRef.current.uniforms.uCutThreshold.value = layeredMesh ? LAYER_CUT_THRESHOLD : 0;
+    if (backgroundMeshRef.current) {
+      backgroundMeshRef.current.visible = layeredMesh;
+    } else if (layeredMesh) {
+      buildBackgroundMesh();
+    }
+    requestRenderIfNotRequested();
+  }, [layeredMesh, isLoading, buildBackgroundMesh, requestRenderIfNotRequested]);
   
+  useEffect(() => {
+    if (isLoading) return;
+    const inset = popOut && maskTextureRef.current ? POP_OUT_FRAME_INSET : 0;
+    [liveMaterialRef.current, backgroundMaterialRef.current].forEach(material => {
+      if (material) material.uniforms.uFrameInset.value = inset;
+    });
+    requestRenderIfNotRequested();
+  }, [popOut, isLoading, requestRenderIfNotRequested]);
+
   useEffect(() => {
     if (bakingMaterialRef.current) {
       bakingMaterialRef.current.uniforms.uBlurIntensity.value = blurIntensity;
       bakingMaterialRef.current.uniforms.uBlurOffset.value = blurOffset;
       bakingMaterialRef.current.uniforms.uRenderMode.value = renderMode === 'fill' ? 1 : 0;
+      bakingMaterialRef.current.uniforms.uSelectionRange.value = selectionRange;
       runBakePass();
     }
-  }, [blurIntensity, blurOffset, renderMode, runBakePass]);
+  }, [blurIntensity, blurOffset, renderMode, selectionRange, runBakePass]);
 
   useEffect(() => {
     if (!cameraRef.current || cameraRef.current.type.toLowerCase().startsWith(cameraType)) return;
@@ -495,7 +1044,7 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
     let newCamera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
 
     if (cameraType === 'perspective') {
-      newCamera = new THREE.PerspectiveCamera(75, aspect, 0.1, 100);
+      newCamera = new THREE.PerspectiveCamera(PERSPECTIVE_FOV, aspect, 0.1, 100);
       newCamera.position.z = cameraDistance;
     } else {
       const frustumSize = 2;
@@ -533,7 +1082,7 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
   }, [onPointerMove]);
   
   const onPointerDown = useCallback((event: PointerEvent) => {
-      if(useSensorRef.current || isRecordingRef.current) return;
+      if(useSensorRef.current || isRecordingRef.current || isImmersiveRef.current) return;
       event.preventDefault();
       isDraggingRef.current = true;
       previousPointerPosition.current.x = event.clientX;
@@ -544,7 +1093,7 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
   }, [onPointerMove, onPointerUp]);
 
   const handleDeviceOrientation = useCallback((event: DeviceOrientationEvent) => {
-      if (!meshRef.current || !event.beta || !event.gamma || !useSensorRef.current || isRecordingRef.current) return;
+      if (!meshRef.current || !event.beta || !event.gamma || !useSensorRef.current || isRecordingRef.current || isImmersiveRef.current) return;
   
       if (initialOrientationRef.current.beta === null || initialOrientationRef.current.gamma === null) {
         initialOrientationRef.current = { beta: event.beta, gamma: event.gamma };
@@ -567,7 +1116,7 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
 
   const onWheel = useCallback((event: WheelEvent) => {
     event.preventDefault();
-    if (!cameraRef.current || isRecordingRef.current) return;
+    if (!cameraRef.current || isRecordingRef.current || isImmersiveRef.current) return;
 
     const zoomSpeed = 0.002;
     const delta = event.deltaY * zoomSpeed;
@@ -626,6 +1175,7 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
     renderer.outputColorSpace = THREE.SRGBColorSpace;
     currentMount.appendChild(renderer.domElement);
     rendererRef.current = renderer;
+    stereoRendererRef.current = createStereoRenderer(renderer);
 
     const scene = new THREE.Scene();
     sceneRef.current = scene;
@@ -633,7 +1183,7 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
     let camera: THREE.PerspectiveCamera | THREE.OrthographicCamera;
     const aspect = currentMount.clientWidth / currentMount.clientHeight;
     if (cameraType === 'perspective') {
-        camera = new THREE.PerspectiveCamera(75, aspect, 0.1, 100);
+        camera = new THREE.PerspectiveCamera(PERSPECTIVE_FOV, aspect, 0.1, 100);
         camera.position.z = cameraDistance;
     } else {
         const frustumSize = 2;
@@ -657,19 +1207,38 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
     };
     
     Promise.all([
-      new Promise<THREE.Texture>(resolve => textureLoader.load(image, (tex) => {
-        applyTextureSettings(tex);
-        resolve(tex);
-      })),
-      new Promise<THREE.Texture>(resolve => textureLoader.load(depthMap, (tex) => {
+      new Promise<THREE.Texture>((resolve, reject) => textureLoader.load(image, (tex) => {
         applyTextureSettings(tex);
         resolve(tex);
-      }))
-    ]).then(([colorTex, depthTex]) => {
+      }, undefined, () => reject(new Error('Failed to load the photo')))),
+      loadDepthMap(depthMap),
+      // Masks are single-channel images in the same layout as depth maps. They are optional, so a
+      // mask that fails to load leaves the scene without one.
+      mask
+        ? loadDepthMap(mask).catch(error => {
+          console.error("Failed to load subject mask", error);
+          return null;
+        })
+        : Promise.resolve(null),
+    ]).then(([colorTex, loadedDepth, maskData]) => {
       if (isCancelled) return;
+      const depthData = maskData
+        ? sharpenSubjectEdge(loadedDepth, maskData, Math.max(2, Math.round(Math.max(loadedDepth.width, loadedDepth.height) * MASK_EDGE_RADIUS)))
+        : loadedDepth;
+      const maskTex = maskData ? createDepthTexture(maskData, renderer) : undefined;
+      maskTextureRef.current = maskTex;
+      if (hasAspectMismatch(colorTex.image, depthData)) {
+        // The uploader offers to align new uploads; older history entries are stretched as before.
+        toast({
+          title: "深度图比例与照片不一致",
+          description: `深度图 (${depthData.width}×${depthData.height}) 已被拉伸以匹配照片 (${colorTex.image.width}×${colorTex.image.height})，画面可能出现错位。`,
+        });
+      }
       
+      const depthTex = createDepthTexture(depthData, renderer);
       colorTextureRef.current = colorTex;
       depthTextureRef.current = depthTex;
+      depthDataRef.current = depthData;
 
       // --- Baking Pass ---
       const resolution = new THREE.Vector2(colorTex.image.width, colorTex.image.height);
@@ -688,6 +1257,9 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
           uBlurOffset: { value: blurOffset },
           uResolution: { value: resolution },
           uRenderMode: { value: renderMode === 'fill' ? 1 : 0 },
+          uSelectionRange: { value: selectionRange },
+          uMask: { value: maskTex ?? null },
+          uHasMask: { value: !!maskTex },
         },
         vertexShader: bakingVertexShader,
         fragmentShader: bakingFragmentShader,
@@ -697,16 +1269,14 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
       runBakePass();
 
       // --- Live Scene Setup ---
-      const geometry = new THREE.PlaneGeometry(2, 2, meshDetail, meshDetail);
-      const liveMaterial = new THREE.ShaderMaterial({
-        uniforms: {
-          uBakedTexture: { value: bakedRT.texture },
-          uDepthMap: { value: depthTex },
-          uDepthMultiplier: { value: depthMultiplier },
-        },
-        vertexShader: liveVertexShader,
-        fragmentShader: liveFragmentShader,
-      });
+      const geometry = createMeshGeometry(meshDetail, adaptiveMesh, triangleBudget, depthData);
+      geometryKeyRef.current = getGeometryKey(meshDetail, adaptiveMesh, triangleBudget);
+      const liveMaterial = createLiveMaterial(bakedRT.texture, depthTex, depthMultiplier);
+      if (maskTex) {
+        liveMaterial.uniforms.uMask.value = maskTex;
+        liveMaterial.uniforms.uHasMask.value = true;
+        liveMaterial.uniforms.uFrameInset.value = popOut ? POP_OUT_FRAME_INSET : 0;
+      }
       liveMaterialRef.current = liveMaterial;
 
       const plane = new THREE.Mesh(geometry, liveMaterial);
@@ -717,6 +1287,11 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
 
       setIsLoading(false);
       requestRenderIfNotRequested();
+    }).catch(error => {
+      if (isCancelled) return;
+      console.error("Failed to load scene", error);
+      setIsLoading(false);
+      toast({ variant: "destructive", title: "加载场景失败", description: error instanceof Error ? error.message : "发生未知错误" });
     });
 
     currentMount.addEventListener('pointerdown', onPointerDown);
@@ -729,20 +1304,8 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
       const height = currentMount.clientHeight;
       renderer.setSize(width, height);
       
-      const cam = cameraRef.current;
-      if (cam) {
-        const newAspect = width / height;
-        if (cam.type === 'PerspectiveCamera') {
-          (cam as THREE.PerspectiveCamera).aspect = newAspect;
-        } else if (cam.type === 'OrthographicCamera') {
-          const orthoCam = cam as THREE.OrthographicCamera;
-          const frustumSize = 2;
-          orthoCam.left = frustumSize * newAspect / -2;
-          orthoCam.right = frustumSize * newAspect / 2;
-          orthoCam.top = frustumSize / 2;
-          orthoCam.bottom = frustumSize / -2;
-        }
-        cam.updateProjectionMatrix();
+      if (cameraRef.current) {
+        updateCameraAspect(cameraRef.current, width / height);
       }
       requestRenderIfNotRequested();
     };
@@ -759,9 +1322,17 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
       
       colorTextureRef.current?.dispose();
       depthTextureRef.current?.dispose();
+      maskTextureRef.current?.dispose();
+      maskTextureRef.current = undefined;
       bakedTextureRef.current?.dispose();
       bakingMaterialRef.current?.dispose();
 
+      backgroundTexturesRef.current.forEach(texture => texture.dispose());
+      backgroundTexturesRef.current = [];
+      backgroundMaterialRef.current?.dispose();
+      backgroundMaterialRef.current = undefined;
+      backgroundMeshRef.current = undefined;
+
       if (meshRef.current) {
         meshRef.current.geometry?.dispose();
         liveMaterialRef.current?.dispose();
@@ -773,10 +1344,13 @@ export const DepthWeaverScene = forwardRef<DepthWeaverSceneHandle, DepthWeaverSc
       if (renderer.domElement && currentMount.contains(renderer.domElement)) {
          currentMount.removeChild(renderer.domElement);
       }
+      xrSessionRef.current?.end().catch(() => {});
+      stereoRendererRef.current?.dispose();
+      stereoRendererRef.current = undefined;
       renderer.dispose();
       rendererRef.current = undefined;
     };
-  }, [image, depthMap, onWheel, onPointerDown]);
+  }, [image, depthMap, mask, onWheel, onPointerDown]);
 
   return (
     <>
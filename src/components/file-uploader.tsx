@@ -5,8 +5,9 @@ import { useState, ChangeEvent, DragEvent, ReactNode, useEffect, useRef, useCall
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
-import { UploadCloud, FileImage, Loader2, Sparkles, Download, HelpCircle, Info } from 'lucide-react';
+import { UploadCloud, FileImage, Loader2, Sparkles, Download, HelpCircle, Info, Brush, Wand2, ScanFace, X } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast"
+import { useDepthWorker, type LocalModelState } from '@/hooks/use-depth-worker';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
@@ -14,9 +15,18 @@ import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import Link from 'next/link';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { extractEmbeddedDepth } from '@/lib/depth-xmp';
+import { encodeDepthPng, readDepthFile, type DepthMap } from '@/lib/depth-map';
+import { DepthEditor } from '@/components/depth-editor';
+import { DepthRefineDialog } from '@/components/depth-refine-dialog';
+import { DepthAlignment } from '@/components/depth-alignment';
+import { createMaskFile } from '@/lib/subject-mask';
+import { DepthWorkerError, type DepthWorkerProgress } from '@/lib/depth-worker-protocol';
+import { loadMatchingViews, splitStereoPair, stereoPairLayouts, type StereoPair, type StereoPairLayout } from '@/lib/stereo-pair';
+import type { DepthSource } from '@/lib/library';
 
 interface FileUploaderProps {
-    onFilesSelected: (image: File, depthMap: File) => void;
+    onFilesSelected: (image: File, depthMap: File, mask?: File, source?: DepthSource) => void;
 }
 
 interface FileInputBoxProps {
@@ -30,10 +40,45 @@ interface FileInputBoxProps {
     onGenerateClick?: () => void;
     isGenerating?: boolean;
     isLocalGenerating?: boolean;
+    generateProgress?: string;
+    onCancelGenerateClick?: () => void;
     showHelpButton?: boolean;
     helpDialogContent?: ReactNode;
+    accept?: string;
+    formatHint?: string;
+    onEditClick?: () => void;
+    onRefineClick?: () => void;
 }
 
+// Generated depth arrives as floats and is kept at 16 bits rather than squashed to 8.
+const depthToFile = (depth: DepthMap, fileName: string) =>
+    new File([encodeDepthPng(depth)], fileName, { type: "image/png" });
+
+const formatMegabytes = (bytes = 0) => `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+
+const describeModelState = (state: LocalModelState) => {
+    switch (state.status) {
+        case 'idle':
+            return '未初始化';
+        case 'ready':
+            return '就绪';
+        case 'error':
+            return `错误: ${state.message}`;
+        case 'loading':
+            if (state.progress?.phase === 'download') {
+                return `下载中... ${(state.progress.percent ?? 0).toFixed(2)}% (${formatMegabytes(state.progress.loaded)} / ${formatMegabytes(state.progress.total)})`;
+            }
+            return state.progress ? '正在加载模型...' : '正在准备环境...';
+    }
+};
+
+const describeSegmentation = (progress: DepthWorkerProgress | null) => {
+    if (progress?.phase === 'segmentation-download') {
+        return `正在下载主体识别模型... ${(progress.percent ?? 0).toFixed(2)}%`;
+    }
+    return progress ? '正在识别主体...' : '正在准备主体识别...';
+};
+
 const FileInputBox = ({ 
     id, 
     onFileSelect, 
@@ -45,8 +90,14 @@ const FileInputBox = ({
     onGenerateClick, 
     isGenerating, 
     isLocalGenerating,
+    generateProgress,
+    onCancelGenerateClick,
     showHelpButton,
-    helpDialogContent
+    helpDialogContent,
+    accept = "image/png, image/jpeg, image/webp",
+    formatHint = "支持 PNG, JPG, 或 WEBP",
+    onEditClick,
+    onRefineClick
 }: FileInputBoxProps) => {
     const [isDragging, setIsDragging] = useState(false);
     const [previewUrl, setPreviewUrl] = useState<string | null>(null);
@@ -99,9 +150,21 @@ const FileInputBox = ({
                     <label htmlFor={id} className="block text-sm font-medium text-foreground">{label}</label>
                 </div>
                 <div className="flex items-center gap-2">
-                    {description && !showGenerateButton && (
+                    {description && !showGenerateButton && !onEditClick && !onRefineClick && (
                          <p className="text-xs text-muted-foreground">{description}</p>
                     )}
+                    {onRefineClick && (
+                        <Button variant="ghost" size="sm" onClick={onRefineClick} className="text-xs">
+                            <Wand2 className="mr-2 h-4 w-4" />
+                            优化边缘
+                        </Button>
+                    )}
+                    {onEditClick && (
+                        <Button variant="ghost" size="sm" onClick={onEditClick} className="text-xs">
+                            <Brush className="mr-2 h-4 w-4" />
+                            编辑深度图
+                        </Button>
+                    )}
                     {showGenerateButton && onGenerateClick && (
                          <Button 
                             variant="ghost" 
@@ -115,7 +178,13 @@ const FileInputBox = ({
                             ) : (
                                 <Sparkles className="mr-2 h-4 w-4" />
                             )}
-                            生成深度图
+                            {generateProgress ? `生成中 ${generateProgress}` : '生成深度图'}
+                        </Button>
+                    )}
+                    {isLocalGenerating && onCancelGenerateClick && (
+                        <Button variant="ghost" size="sm" onClick={onCancelGenerateClick} className="text-xs">
+                            <X className="mr-2 h-4 w-4" />
+                            取消
                         </Button>
                     )}
                     {showHelpButton && helpDialogContent && (
@@ -161,10 +230,10 @@ const FileInputBox = ({
                     <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center">
                         {icon}
                         <p className="mb-2 text-sm text-muted-foreground"><span className="font-semibold text-primary">点击上传</span> 或拖放文件</p>
-                        <p className="text-xs text-muted-foreground">支持 PNG, JPG, 或 WEBP</p>
+                        <p className="text-xs text-muted-foreground">{formatHint}</p>
                     </div>
                 )}
-                <input id={id} type="file" className="hidden" onChange={handleFileChange} accept="image/png, image/jpeg, image/webp" />
+                <input id={id} type="file" className="hidden" onChange={handleFileChange} accept={accept} />
             </label>
         </div>
     );
@@ -173,6 +242,8 @@ const FileInputBox = ({
 export function FileUploader({ onFilesSelected }: FileUploaderProps) {
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [depthMapFile, setDepthMapFile] = useState<File | null>(null);
+    // Kept through later edits and refinement, which start from the depth map already there.
+    const [depthSource, setDepthSource] = useState<DepthSource>('upload');
     const [isGenerating, setIsGenerating] = useState(false);
     const { toast } = useToast();
     const defaultApiUrl = 'https://depth-anything-depth-anything-v2.hf.space';
@@ -181,11 +252,43 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
     // Local generation state
     const [useLocalGenerator, setUseLocalGenerator] = useState(false);
     const [useMirror, setUseMirror] = useState(false);
-    const [isLocalGenerating, setIsLocalGenerating] = useState(false);
-    const [localModelStatus, setLocalModelStatus] = useState('未初始化');
     const [localModelName, setLocalModelName] = useState('onnx-community/depth-anything-v2-small');
-    const [localGeneratorDevice, setLocalGeneratorDevice] = useState('未知');
-    const workerRef = useRef<Worker>();
+    // Tiles across the photo's longer side for high-resolution generation; 1 runs the model once.
+    const [localTiles, setLocalTiles] = useState(1);
+    const depthWorker = useDepthWorker();
+    const { init: initDepthWorker } = depthWorker;
+    const isLocalGenerating = depthWorker.generation !== null;
+    const generationProgress = depthWorker.generation?.progress;
+
+    // Stereo pair state
+    const [stereoLayout, setStereoLayout] = useState<StereoPairLayout>('none');
+    const [isMatching, setIsMatching] = useState(false);
+    const [matchStatus, setMatchStatus] = useState('');
+    const [isDepthEditorOpen, setIsDepthEditorOpen] = useState(false);
+
+    // Subject mask state
+    const [maskFile, setMaskFile] = useState<File | null>(null);
+    const isSegmenting = depthWorker.segmentation !== null;
+
+    // Edge refinement state
+    const [refineAfterGeneration, setRefineAfterGeneration] = useState(false);
+    const [isRefineDialogOpen, setIsRefineDialogOpen] = useState(false);
+    // Read by the worker message handlers, which are only registered once.
+    const refineAfterGenerationRef = useRef(false);
+
+    useEffect(() => {
+        refineAfterGenerationRef.current = refineAfterGeneration;
+    }, [refineAfterGeneration]);
+
+    const handleGeneratedDepth = (file: File, source: DepthSource) => {
+        setDepthMapFile(file);
+        setDepthSource(source);
+        if (refineAfterGenerationRef.current) {
+            setIsRefineDialogOpen(true);
+        }
+    };
+    const stereoWorkerRef = useRef<Worker>();
+    const sourceImageRef = useRef<File | null>(null);
 
 
     useEffect(() => {
@@ -201,78 +304,50 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
 
             const savedModelName = localStorage.getItem('localModelName');
             if (savedModelName) setLocalModelName(savedModelName);
+
+            const savedTiles = localStorage.getItem('localTiles');
+            if (savedTiles) setLocalTiles(JSON.parse(savedTiles));
+
+            const savedRefine = localStorage.getItem('refineAfterGeneration');
+            if (savedRefine) setRefineAfterGeneration(JSON.parse(savedRefine));
             
         } catch (error) {
             console.error("Failed to read from localStorage", error);
         }
+    }, []);
 
-        // Initialize worker
-        workerRef.current = new Worker(new URL('../workers/depth-worker.ts', import.meta.url));
+    useEffect(() => {
+        stereoWorkerRef.current = new Worker(new URL('../workers/stereo-worker.ts', import.meta.url));
 
         const onMessageReceived = (e: MessageEvent) => {
             const { type, payload } = e.data;
             switch(type) {
                 case 'status':
-                    setLocalModelStatus(payload);
-                    if (payload === '正在生成深度图...') {
-                        setIsLocalGenerating(true);
-                    }
-                    break;
-                case 'device-info':
-                    setLocalGeneratorDevice(payload === 'webgpu' ? 'webgpu' : 'wasm (CPU)');
+                    setMatchStatus(payload);
                     break;
                 case 'result':
-                    const { depth } = payload;
-                    const canvas = document.createElement('canvas');
-                    canvas.width = depth.width;
-                    canvas.height = depth.height;
-                    const ctx = canvas.getContext('2d');
-                    if (!ctx) throw new Error('Could not get canvas context');
-                    
-                    const imageData = new ImageData(new Uint8ClampedArray(depth.data), depth.width, depth.height);
-                    ctx.putImageData(imageData, 0, 0);
-
-                    canvas.toBlob((blob) => {
-                        if (blob) {
-                            const generatedFile = new File([blob], "generated-depth-map.png", { type: "image/png" });
-                            setDepthMapFile(generatedFile);
-                            toast({ title: "成功", description: "深度图已在本地生成并载入。" });
-                        } else {
-                            throw new Error("Canvas to Blob conversion failed.");
-                        }
-                        setIsLocalGenerating(false);
-                        setLocalModelStatus('就绪');
-                    }, 'image/png');
+                    handleGeneratedDepth(depthToFile(payload.depth, "stereo-depth-map.png"), 'stereo');
+                    toast({ title: "成功", description: "已通过立体匹配生成深度图。" });
+                    setIsMatching(false);
                     break;
                 case 'error':
-                    toast({ variant: "destructive", title: "Worker 错误", description: payload });
-                    setIsLocalGenerating(false);
-                    setLocalModelStatus('错误');
+                    toast({ variant: "destructive", title: "立体匹配失败", description: payload });
+                    setIsMatching(false);
                     break;
             }
         };
 
-        workerRef.current.addEventListener('message', onMessageReceived);
-        
-        // Pre-check environment
-        workerRef.current.postMessage({ type: 'init', payload: { model: 'pre-check' } });
-
+        stereoWorkerRef.current.addEventListener('message', onMessageReceived);
 
-        // Cleanup
         return () => {
-            workerRef.current?.removeEventListener('message', onMessageReceived);
-            workerRef.current?.terminate();
+            stereoWorkerRef.current?.removeEventListener('message', onMessageReceived);
+            stereoWorkerRef.current?.terminate();
         }
     }, [toast]);
 
     const initializeLocalGenerator = useCallback(() => {
-        if (!workerRef.current) return;
-        setLocalModelStatus('正在准备环境...');
-        workerRef.current.postMessage({
-            type: 'init',
-            payload: { model: localModelName, useMirror }
-        });
-    }, [localModelName, useMirror]);
+        initDepthWorker(localModelName, useMirror);
+    }, [initDepthWorker, localModelName, useMirror]);
 
     useEffect(() => {
         if (useLocalGenerator) {
@@ -299,6 +374,25 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
         }
     }
 
+    const handleRefineAfterGenerationChange = (checked: boolean) => {
+        setRefineAfterGeneration(checked);
+        try {
+            localStorage.setItem('refineAfterGeneration', JSON.stringify(checked));
+        } catch (error) {
+            console.error("Failed to write to localStorage", error);
+        }
+    }
+
+    const handleLocalTilesChange = (value: string) => {
+        const tiles = Number(value);
+        setLocalTiles(tiles);
+        try {
+            localStorage.setItem('localTiles', JSON.stringify(tiles));
+        } catch (error) {
+            console.error("Failed to write to localStorage", error);
+        }
+    }
+
     const handleLocalModelChange = (model: string) => {
         setLocalModelName(model);
         try {
@@ -308,9 +402,99 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
         }
     }
 
+    const matchStereoPair = async (pair: StereoPair) => {
+        if (!stereoWorkerRef.current) return;
+        setIsMatching(true);
+        setMatchStatus('正在准备立体匹配...');
+        try {
+            const [left, right] = await loadMatchingViews(pair);
+            stereoWorkerRef.current.postMessage(
+                {
+                    type: 'match',
+                    payload: {
+                        left: { data: left.data, width: left.width, height: left.height },
+                        right: { data: right.data, width: right.width, height: right.height },
+                    }
+                },
+                [left.data.buffer, right.data.buffer]
+            );
+        } catch (error) {
+            setIsMatching(false);
+            throw error;
+        }
+    };
+
+    const processImage = async (file: File, layout: StereoPairLayout) => {
+        setImageFile(file);
+        setMaskFile(null);
+        try {
+            const pair = await splitStereoPair(file, layout);
+            if (pair) {
+                // The depth map is computed for the left view, so it becomes the photo.
+                setImageFile(pair.left);
+                setDepthMapFile(null);
+                await matchStereoPair(pair);
+                return;
+            }
+        } catch (error) {
+            console.error("Failed to read stereo pair", error);
+            toast({ variant: "destructive", title: "读取立体照片失败", description: error instanceof Error ? error.message : "发生未知错误" });
+            return;
+        }
+
+        try {
+            const embeddedDepth = await extractEmbeddedDepth(file);
+            if (embeddedDepth) {
+                setDepthMapFile(embeddedDepth);
+                setDepthSource('embedded');
+                toast({ title: "已读取深度图", description: "已从照片内嵌的深度信息中提取深度图。" });
+            }
+        } catch (error) {
+            console.error("Failed to read embedded depth", error);
+        }
+    };
+
+    const handleImageSelect = (file: File) => {
+        sourceImageRef.current = file;
+        processImage(file, stereoLayout);
+    };
+
+    const handleDepthMapSelect = async (file: File) => {
+        try {
+            setDepthMapFile(await readDepthFile(file));
+            setDepthSource('upload');
+        } catch (error) {
+            console.error("Failed to read depth map", error);
+            toast({ variant: "destructive", title: "读取深度图失败", description: error instanceof Error ? error.message : "发生未知错误" });
+        }
+    };
+
+    const handleStereoLayoutChange = (layout: StereoPairLayout) => {
+        setStereoLayout(layout);
+        if (sourceImageRef.current && !isMatching) {
+            // A depth map computed for the previous layout no longer matches the photo.
+            setDepthMapFile(null);
+            processImage(sourceImageRef.current, layout);
+        }
+    };
+
     const handleSubmit = async () => {
         if (imageFile && depthMapFile) {
-            onFilesSelected(imageFile, depthMapFile);
+            onFilesSelected(imageFile, depthMapFile, maskFile ?? undefined, depthSource);
+        }
+    };
+
+    const handleSegment = async () => {
+        if (!imageFile) return;
+        const imageUrl = URL.createObjectURL(imageFile);
+        try {
+            setMaskFile(await createMaskFile(await depthWorker.segment(imageUrl, useMirror)));
+            toast({ title: "成功", description: "已识别照片中的主体。" });
+        } catch (error) {
+            console.error("Failed to segment subject", error);
+            toast({ variant: "destructive", title: "主体识别失败", description: error instanceof Error ? error.message : "发生未知错误" });
+        } finally {
+            URL.revokeObjectURL(imageUrl);
         }
     };
     
@@ -322,33 +506,39 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
         }
     };
 
-    const handleLocalGenerateDepthMap = useCallback(async () => {
-        if (!imageFile || !workerRef.current) return;
+    const handleLocalGenerateDepthMap = async () => {
+        if (!imageFile) return;
         
-        if (localModelStatus !== '就绪') {
+        if (depthWorker.model.status !== 'ready') {
              toast({ variant: "destructive", title: "本地模型未就绪", description: "请等待模型下载完成或检查设置后重试。" });
-             if (localModelStatus === '错误') {
+             if (depthWorker.model.status === 'error') {
                 initializeLocalGenerator();
              }
              return;
         }
 
         const imageUrl = URL.createObjectURL(imageFile);
-        
-        setTimeout(() => {
-          if(workerRef.current){
-             workerRef.current.postMessage({
-                type: 'generate',
-                payload: { imageUrl }
-            });
-            // The URL needs to be revoked after the worker has used it.
-            // For simplicity, we can do it after a short delay, assuming worker has loaded it.
-            setTimeout(() => URL.revokeObjectURL(imageUrl), 1000);
-          }
-        }, 0);
-
+        try {
+            const depth = await depthWorker.generate(imageUrl, localTiles);
+            handleGeneratedDepth(depthToFile(depth, "generated-depth-map.png"), 'local');
+            toast({ title: "成功", description: "深度图已在本地生成并载入。" });
+        } catch (error) {
+            if (error instanceof DepthWorkerError && error.code === 'cancelled') {
+                toast({ title: "已取消", description: "已停止生成深度图。" });
+                return;
+            }
+            console.error("Failed to generate depth map locally", error);
+            toast({ variant: "destructive", title: "本地生成失败", description: error instanceof Error ? error.message : "发生未知错误" });
+        } finally {
+            URL.revokeObjectURL(imageUrl);
+        }
+    };
 
-    }, [imageFile, localModelStatus, initializeLocalGenerator, toast]);
+    const handleCancelLocalGenerate = () => {
+        if (depthWorker.generation) {
+            depthWorker.cancel(depthWorker.generation.id);
+        }
+    };
     
     const handleRemoteGenerateDepthMap = async (currentApiUrl: string) => {
         if (!imageFile) return;
@@ -417,7 +607,7 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
                             }
                             const imageBlob = await imageResponse.blob();
                             const generatedFile = new File([imageBlob], "generated-depth-map.png", { type: imageBlob.type });
-                            setDepthMapFile(generatedFile);
+                            handleGeneratedDepth(generatedFile, 'remote');
                             toast({ title: "成功", description: "深度图已生成并载入。" });
                         } catch(e) {
                              if (e instanceof Error) {
@@ -486,6 +676,16 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
                     />
                 </div>
                 <Separator className="my-4"/>
+                <div className="space-y-2">
+                    <div className="flex items-center space-x-2">
+                        <Switch id="refine-after-generation-switch" checked={refineAfterGeneration} onCheckedChange={handleRefineAfterGenerationChange}/>
+                        <Label htmlFor="refine-after-generation-switch" className="font-bold">生成后优化边缘</Label>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                        模型输出的深度图分辨率较低、边缘模糊。启用后每次生成完成都会打开边缘优化，参照照片轮廓对齐深度边缘；上传的深度图也可随时点击“优化边缘”处理。
+                    </p>
+                </div>
+                <Separator className="my-4"/>
                 <div className="space-y-4">
                     <div className="flex items-center space-x-2">
                         <Switch id="local-generation-switch" checked={useLocalGenerator} onCheckedChange={handleUseLocalChange}/>
@@ -515,7 +715,7 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
                             <div className="flex justify-between items-center">
                                 <Label htmlFor="local-model-select">本地模型选择</Label>
                                 <div className="text-sm text-muted-foreground">
-                                    运行环境: {localGeneratorDevice}
+                                    运行环境: {depthWorker.device === null ? '未知' : depthWorker.device === 'webgpu' ? 'webgpu' : 'wasm (CPU)'}
                                 </div>
                             </div>
                              <Select value={localModelName} onValueChange={handleLocalModelChange}>
@@ -529,10 +729,27 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
                                 </SelectContent>
                             </Select>
                         </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="local-tiles-select">分块高分辨率生成</Label>
+                            <Select value={String(localTiles)} onValueChange={handleLocalTilesChange}>
+                                <SelectTrigger id="local-tiles-select">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="1">关闭 (整张照片运行一次)</SelectItem>
+                                    <SelectItem value="2">长边 2 块 (较快)</SelectItem>
+                                    <SelectItem value="3">长边 3 块</SelectItem>
+                                    <SelectItem value="4">长边 4 块 (细节最多，耗时最长)</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <p className="text-sm text-muted-foreground">
+                                模型的输入尺寸有限，高像素照片生成的深度图会很小。启用后先整体生成一次，再将照片切成相互重叠的小块逐块生成并拼接，深度图可达照片的分辨率（最长边不超过 4096 像素），耗时随块数成倍增加。
+                            </p>
+                        </div>
                         {useLocalGenerator && (
                             <div className="text-sm flex justify-between">
                                 <div>
-                                    <span className="font-semibold">下载状态:</span> <span className="text-muted-foreground">{localModelStatus}</span>
+                                    <span className="font-semibold">下载状态:</span> <span className="text-muted-foreground">{describeModelState(depthWorker.model)}</span>
                                 </div>
                             </div>
                         )}
@@ -561,30 +778,85 @@ export function FileUploader({ onFilesSelected }: FileUploaderProps) {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <FileInputBox 
                         id="image-upload" 
-                        onFileSelect={setImageFile} 
+                        onFileSelect={handleImageSelect} 
                         acceptedFile={imageFile} 
                         label="照片" 
                         description=""
                         icon={<FileImage className="w-10 h-10 mb-3 text-muted-foreground" />}
                         showGenerateButton={true}
                         onGenerateClick={handleGenerateClick}
-                        isGenerating={isGenerating}
+                        isGenerating={isGenerating || isMatching}
                         isLocalGenerating={isLocalGenerating}
+                        generateProgress={generationProgress?.phase === 'tiles' ? `${generationProgress.loaded}/${generationProgress.total}` : undefined}
+                        onCancelGenerateClick={handleCancelLocalGenerate}
                         showHelpButton={true}
                         helpDialogContent={helpDialogContent}
+                        accept="image/png, image/jpeg, image/webp, .mpo"
+                        formatHint="支持 PNG, JPG, WEBP 或 MPO"
                     />
                     <FileInputBox 
                         id="depth-map-upload" 
-                        onFileSelect={setDepthMapFile} 
+                        onFileSelect={handleDepthMapSelect} 
                         acceptedFile={depthMapFile} 
                         label="深度图 (灰度)" 
                         description="颜色从深到浅表示距离由远及近"
                         icon={<UploadCloud className="w-10 h-10 mb-3 text-muted-foreground" />}
+                        accept="image/png, image/jpeg, image/webp, .exr, .pfm"
+                        formatHint="支持 PNG (8/16位), JPG, WEBP, EXR 或 PFM"
+                        onEditClick={imageFile && depthMapFile && !isMatching ? () => setIsDepthEditorOpen(true) : undefined}
+                        onRefineClick={imageFile && depthMapFile && !isMatching ? () => setIsRefineDialogOpen(true) : undefined}
                     />
                 </div>
-                <Button onClick={handleSubmit} disabled={!imageFile || !depthMapFile} size="lg" className="w-full text-lg py-6">
+                {imageFile && depthMapFile && !isMatching && (
+                    <DepthAlignment image={imageFile} depthMap={depthMapFile} onDepthMapChange={setDepthMapFile} />
+                )}
+                <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                        <Label htmlFor="stereo-layout-select">立体照片</Label>
+                        <p className="text-xs text-muted-foreground">
+                            {isMatching ? matchStatus : 'MPO 文件会自动识别，左右并排的照片需手动选择排列方式'}
+                        </p>
+                    </div>
+                    <Select value={stereoLayout} onValueChange={(value) => handleStereoLayoutChange(value as StereoPairLayout)} disabled={isMatching}>
+                        <SelectTrigger id="stereo-layout-select" className="w-[160px] shrink-0">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {stereoPairLayouts.map(layout => (
+                                <SelectItem key={layout.value} value={layout.value}>{layout.label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+                <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                        <Label>主体蒙版</Label>
+                        <p className="text-xs text-muted-foreground">
+                            {isSegmenting ? describeSegmentation(depthWorker.segmentation!.progress) : maskFile ? '已识别主体，将用于锐化主体边缘、引导背景填充和出框效果' : '在浏览器本地识别照片中的主体，首次使用需要下载模型'}
+                        </p>
+                    </div>
+                    <Button variant="outline" onClick={handleSegment} disabled={!imageFile || isSegmenting || isMatching} className="w-[160px] shrink-0">
+                        {isSegmenting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanFace className="mr-2 h-4 w-4" />}
+                        {maskFile ? '重新识别' : '识别主体'}
+                    </Button>
+                </div>
+                <Button onClick={handleSubmit} disabled={!imageFile || !depthMapFile || isMatching || isSegmenting} size="lg" className="w-full text-lg py-6">
                     构建3D场景
                 </Button>
+                <DepthEditor
+                    open={isDepthEditorOpen}
+                    onOpenChange={setIsDepthEditorOpen}
+                    image={imageFile}
+                    depthMap={depthMapFile}
+                    onSave={setDepthMapFile}
+                />
+                <DepthRefineDialog
+                    open={isRefineDialogOpen}
+                    onOpenChange={setIsRefineDialogOpen}
+                    image={imageFile}
+                    depthMap={depthMapFile}
+                    onApply={setDepthMapFile}
+                />
             </CardContent>
         </Card>
     );
@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { AlbumDbEntry, HistoryDbEntry } from '@/lib/db';
+import { depthSources, parseTags } from '@/lib/library';
+
+export type HistoryEntryChanges = Partial<Pick<HistoryDbEntry, 'title' | 'tags' | 'albumId' | 'favorite'>>;
+
+interface HistoryEntryDialogProps {
+  entry: HistoryDbEntry;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  albums: AlbumDbEntry[];
+  onSave: (changes: HistoryEntryChanges) => Promise<void>;
+  /** Creates an album and returns its id. */
+  onCreateAlbum: (name: string) => Promise<number>;
+}
+
+const NO_ALBUM = 'none';
+const NEW_ALBUM = 'new';
+
+/** Edits the title, tags and album of a history entry. */
+export function HistoryEntryDialog({ entry, open, onOpenChange, albums, onSave, onCreateAlbum }: HistoryEntryDialogProps) {
+  const [title, setTitle] = useState('');
+  const [tags, setTags] = useState('');
+  const [album, setAlbum] = useState(NO_ALBUM);
+  const [albumName, setAlbumName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // The form starts from the entry each time it opens, dropping edits that were not saved. It keys on
+  // the id, since thumbnails and settings saved in the background replace the entry object.
+  useEffect(() => {
+    if (!open) return;
+    setTitle(entry.title ?? '');
+    setTags(entry.tags.join(', '));
+    setAlbum(entry.albumId !== undefined ? String(entry.albumId) : NO_ALBUM);
+    setAlbumName('');
+  }, [open, entry.id]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      let albumId = album === NO_ALBUM ? undefined : Number(album);
+      if (album === NEW_ALBUM) {
+        const name = albumName.trim();
+        albumId = albums.find(item => item.name === name)?.id ?? await onCreateAlbum(name);
+      }
+      await onSave({ title: title.trim() || undefined, tags: parseTags(tags), albumId });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to update history entry", error);
+      toast({ variant: "destructive", title: "保存失败", description: error instanceof Error ? error.message : "发生未知错误" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const source = depthSources.find(item => item.value === entry.source);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>编辑记录</DialogTitle>
+          <DialogDescription>
+            创建于 {new Date(entry.createdAt).toLocaleString()}{source && ` · ${source.label}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="history-entry-title">标题</Label>
+            <Input
+              id="history-entry-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={new Date(entry.createdAt).toLocaleString()}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="history-entry-tags">标签</Label>
+            <Input
+              id="history-entry-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="用逗号或空格分隔，例如：旅行, 人像"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="history-entry-album">相册</Label>
+            <Select value={album} onValueChange={setAlbum}>
+              <SelectTrigger id="history-entry-album">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ALBUM}>不放入相册</SelectItem>
+                {albums.map(item => (
+                  <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+                ))}
+                <SelectItem value={NEW_ALBUM}>新建相册...</SelectItem>
+              </SelectContent>
+            </Select>
+            {album === NEW_ALBUM && (
+              <Input value={albumName} onChange={(e) => setAlbumName(e.target.value)} placeholder="相册名称" />
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>取消</Button>
+          <Button onClick={handleSave} disabled={isSaving || (album === NEW_ALBUM && !albumName.trim())}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            保存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
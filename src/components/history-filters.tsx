@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { FolderX, Search, Star, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AlbumDbEntry } from '@/lib/db';
+import { depthSources, isFilterActive, type DepthSource, type HistoryFilter } from '@/lib/library';
+
+interface HistoryFiltersProps {
+  filter: HistoryFilter;
+  onChange: (filter: HistoryFilter) => void;
+  albums: AlbumDbEntry[];
+  /** Every tag in use. */
+  tags: string[];
+  onDeleteAlbum: (id: number) => void;
+}
+
+// Radix selects cannot hold an empty value, so this stands for "no condition".
+const ALL = 'all';
+// Each search reads the history store, so it waits until typing pauses.
+const SEARCH_DELAY = 300;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Date inputs work in local days, while the filter compares ISO timestamps.
+const toDateInput = (iso?: string) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const fromDateInput = (value: string, endOfDay: boolean) =>
+  value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString() : undefined;
+
+/** Search box and conditions above the history list. */
+export function HistoryFilters({ filter, onChange, albums, tags, onDeleteAlbum }: HistoryFiltersProps) {
+  const update = (changes: Partial<HistoryFilter>) => onChange({ ...filter, ...changes });
+  const [search, setSearch] = useState(filter.search ?? '');
+
+  // Follows the filter when it is cleared from outside the search box.
+  useEffect(() => {
+    setSearch(filter.search ?? '');
+  }, [filter.search]);
+
+  useEffect(() => {
+    if (search === (filter.search ?? '')) return;
+    const timeout = setTimeout(() => onChange({ ...filter, search: search || undefined }), SEARCH_DELAY);
+    return () => clearTimeout(timeout);
+  }, [search, filter, onChange]);
+
+  const handleClear = () => {
+    setSearch('');
+    onChange({});
+  };
+
+  const selectedAlbum = albums.find(album => album.id === filter.albumId);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="搜索标题或标签"
+            className="pl-9"
+          />
+        </div>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => update({ favorite: filter.favorite ? undefined : true })}
+          title="只看收藏"
+          className="shrink-0"
+        >
+          <Star className={cn("h-4 w-4", filter.favorite && "fill-yellow-400 text-yellow-400")} />
+        </Button>
+        {isFilterActive(filter) && (
+          <Button variant="outline" size="icon" onClick={handleClear} title="清除筛选" className="shrink-0">
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+        <div className="flex gap-2">
+          <Select
+            value={filter.albumId !== undefined ? String(filter.albumId) : ALL}
+            onValueChange={(value) => update({ albumId: value === ALL ? undefined : Number(value) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>全部相册</SelectItem>
+              {albums.map(album => (
+                <SelectItem key={album.id} value={String(album.id)}>{album.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedAlbum && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="icon" title="删除相册" className="shrink-0">
+                  <FolderX className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>确定要删除相册“{selectedAlbum.name}”吗？</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    相册中的记录不会被删除，只会移出相册。
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>取消</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => onDeleteAlbum(selectedAlbum.id)}>删除</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+        <Select
+          value={filter.tag ?? ALL}
+          onValueChange={(value) => update({ tag: value === ALL ? undefined : value })}
+          disabled={tags.length === 0}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>全部标签</SelectItem>
+            {tags.map(tag => (
+              <SelectItem key={tag} value={tag}>#{tag}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={filter.source ?? ALL}
+          onValueChange={(value) => update({ source: value === ALL ? undefined : value as DepthSource })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>全部来源</SelectItem>
+            {depthSources.map(source => (
+              <SelectItem key={source.value} value={source.value}>{source.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          value={toDateInput(filter.from)}
+          max={toDateInput(filter.to) || undefined}
+          onChange={(e) => update({ from: fromDateInput(e.target.value, false) })}
+          aria-label="起始日期"
+        />
+        <span className="text-sm text-muted-foreground shrink-0">至</span>
+        <Input
+          type="date"
+          value={toDateInput(filter.to)}
+          min={toDateInput(filter.from) || undefined}
+          onChange={(e) => update({ to: fromDateInput(e.target.value, true) })}
+          aria-label="结束日期"
+        />
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Trash2, Image as ImageIcon } from 'lucide-react';
+import { Trash2, Image as ImageIcon, Loader2, Pencil, Star } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,29 +18,42 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { type HistoryDbEntry } from '@/lib/db';
+import { useToast } from '@/hooks/use-toast';
+import { type AlbumDbEntry, type HistoryDbEntry } from '@/lib/db';
+import type { HistoryFilter } from '@/lib/library';
+import { cn } from '@/lib/utils';
+import { HistoryFilters } from '@/components/history-filters';
+import { HistoryEntryDialog, type HistoryEntryChanges } from '@/components/history-entry-dialog';
 
 
 interface HistoryEntryProps {
   entry: HistoryDbEntry;
+  albums: AlbumDbEntry[];
   onLoad: (entry: HistoryDbEntry) => void;
   onDelete: (id: number) => void;
+  onUpdate: (id: number, changes: HistoryEntryChanges) => Promise<void>;
+  onCreateAlbum: (name: string) => Promise<number>;
 }
 
-function HistoryEntryCard({ entry, onLoad, onDelete }: HistoryEntryProps) {
+function HistoryEntryCard({ entry, albums, onLoad, onDelete, onUpdate, onCreateAlbum }: HistoryEntryProps) {
   const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const { toast } = useToast();
   const touchStartRef = useRef<{ x: number, y: number, time: number } | null>(null);
 
+  // Until an older entry has its thumbnail generated, the full photo stands in.
+  const preview = entry.thumbnail ?? entry.image;
+
   useEffect(() => {
-    if (entry.image) {
-      const url = URL.createObjectURL(entry.image);
+    if (preview) {
+      const url = URL.createObjectURL(preview);
       setImageUrl(url);
 
       return () => {
         URL.revokeObjectURL(url);
       };
     }
-  }, [entry.image]);
+  }, [preview]);
 
   const handleTouchStart = (e: TouchEvent<HTMLDivElement>) => {
     const touch = e.touches[0];
@@ -68,6 +81,15 @@ function HistoryEntryCard({ entry, onLoad, onDelete }: HistoryEntryProps) {
     touchStartRef.current = null;
   };
   
+  const handleToggleFavorite = async () => {
+    try {
+      await onUpdate(entry.id, { favorite: entry.favorite ? 0 : 1 });
+    } catch (error) {
+      console.error("Failed to update history entry", error);
+      toast({ variant: "destructive", title: "收藏失败", description: error instanceof Error ? error.message : "发生未知错误" });
+    }
+  };
+
   if (!imageUrl) return null;
 
   return (
@@ -89,6 +111,26 @@ function HistoryEntryCard({ entry, onLoad, onDelete }: HistoryEntryProps) {
             <ImageIcon className="h-12 w-12 text-white" />
           </div>
         </div>
+        <div className="absolute top-2 left-2 z-10 flex gap-1">
+          <Button
+            variant="secondary"
+            size="icon"
+            className="h-8 w-8 opacity-80 group-hover:opacity-100 transition-opacity"
+            onClick={handleToggleFavorite}
+            title={entry.favorite ? '取消收藏' : '收藏'}
+          >
+            <Star className={cn("h-4 w-4", entry.favorite && "fill-yellow-400 text-yellow-400")} />
+          </Button>
+          <Button
+            variant="secondary"
+            size="icon"
+            className="h-8 w-8 opacity-80 group-hover:opacity-100 transition-opacity"
+            onClick={() => setIsEditing(true)}
+            title="编辑"
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+        </div>
         <div className="absolute top-2 right-2 z-10">
           <AlertDialog>
             <AlertDialogTrigger asChild>
@@ -112,43 +154,158 @@ function HistoryEntryCard({ entry, onLoad, onDelete }: HistoryEntryProps) {
         </div>
         <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-2 text-white rounded-b-lg">
           <p className="text-xs truncate">
-            {new Date(entry.createdAt).toLocaleString()}
+            {entry.title || new Date(entry.createdAt).toLocaleString()}
           </p>
+          {entry.tags.length > 0 && (
+            <p className="text-[10px] truncate text-white/70">
+              {entry.tags.map(tag => `#${tag}`).join(' ')}
+            </p>
+          )}
         </div>
       </CardContent>
+      <HistoryEntryDialog
+        entry={entry}
+        open={isEditing}
+        onOpenChange={setIsEditing}
+        albums={albums}
+        onSave={(changes) => onUpdate(entry.id, changes)}
+        onCreateAlbum={onCreateAlbum}
+      />
     </Card>
   )
 }
 
+// Matches the p-4 and gap-4 of the grid, in pixels.
+const GRID_PADDING = 16;
+const GRID_GAP = 16;
+// Rows rendered above and below the visible ones, so fast scrolling does not show gaps.
+const OVERSCAN_ROWS = 2;
+
+// Two columns on phones, three from Tailwind's `sm` breakpoint and four from `md`.
+const getColumnCount = () => (window.innerWidth >= 768 ? 4 : window.innerWidth >= 640 ? 3 : 2);
+
 export interface HistoryListProps {
   history: HistoryDbEntry[];
+  /** Number of entries matching the filter, including pages not loaded yet. */
+  totalCount: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  filter: HistoryFilter;
+  onFilterChange: (filter: HistoryFilter) => void;
+  albums: AlbumDbEntry[];
+  /** Every tag in use. */
+  tags: string[];
+  onLoadMore: () => void;
   onLoad: (entry: HistoryDbEntry) => void;
   onDelete: (id: number) => void;
+  onUpdate: (id: number, changes: HistoryEntryChanges) => Promise<void>;
+  onCreateAlbum: (name: string) => Promise<number>;
+  onDeleteAlbum: (id: number) => void;
 }
 
-export function HistoryList({ history, onLoad, onDelete }: HistoryListProps) {
-  if (history.length === 0) {
-    return null;
-  }
+export function HistoryList({
+  history,
+  totalCount,
+  hasMore,
+  isLoadingMore,
+  filter,
+  onFilterChange,
+  albums,
+  tags,
+  onLoadMore,
+  onLoad,
+  onDelete,
+  onUpdate,
+  onCreateAlbum,
+  onDeleteAlbum,
+}: HistoryListProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0, scrollTop: 0, columns: 2 });
+
+  // Only the rows in view are mounted, so cards that scroll away release their object URLs.
+  useEffect(() => {
+    const element = viewportRef.current;
+    if (!element) return;
+    const measure = () => setViewport({
+      width: element.clientWidth,
+      height: element.clientHeight,
+      scrollTop: element.scrollTop,
+      columns: getColumnCount(),
+    });
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    element.addEventListener('scroll', measure, { passive: true });
+    // The column count follows the window, which can cross a breakpoint without resizing the list.
+    window.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      element.removeEventListener('scroll', measure);
+      window.removeEventListener('resize', measure);
+    };
+  }, []);
+
+  const { columns } = viewport;
+  const cardSize = Math.max(0, (viewport.width - 2 * GRID_PADDING - (columns - 1) * GRID_GAP) / columns);
+  const rowHeight = cardSize + GRID_GAP;
+  const rowCount = Math.ceil(history.length / columns);
+  const firstRow = rowHeight > 0 ? Math.max(0, Math.floor((viewport.scrollTop - GRID_PADDING) / rowHeight) - OVERSCAN_ROWS) : 0;
+  const lastRow = rowHeight > 0 ? Math.min(rowCount - 1, Math.ceil((viewport.scrollTop + viewport.height) / rowHeight) + OVERSCAN_ROWS) : -1;
+  const visibleEntries = history.slice(firstRow * columns, (lastRow + 1) * columns);
+
+  // The next page is requested when the end of the list scrolls into view.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || isLoadingMore) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) onLoadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, isLoadingMore, onLoadMore]);
 
   return (
      <Card className="w-full max-w-2xl bg-card/80 backdrop-blur-sm border-border/50 shadow-2xl shadow-black/20">
       <CardHeader>
         <CardTitle className="text-center text-2xl font-bold">历史记录</CardTitle>
-        <CardDescription className="text-center">点击卡片进入场景</CardDescription>
+        <CardDescription className="text-center">点击卡片进入场景 · 共 {totalCount} 项</CardDescription>
       </CardHeader>
-      <CardContent>
-        <ScrollArea className="h-80 w-full">
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 p-4">
-            {history.map((entry) => (
+      <CardContent className="space-y-4">
+        <HistoryFilters filter={filter} onChange={onFilterChange} albums={albums} tags={tags} onDeleteAlbum={onDeleteAlbum} />
+        <ScrollArea className="h-80 w-full" viewportRef={viewportRef}>
+          {history.length === 0 && !isLoadingMore && (
+            <p className="p-8 text-center text-sm text-muted-foreground">没有符合条件的记录</p>
+          )}
+          <div
+            className="grid gap-4 px-4"
+            style={{
+              gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+              gridAutoRows: cardSize,
+              // The rows left out keep their space, so the scroll height stays that of the whole list.
+              paddingTop: GRID_PADDING + firstRow * rowHeight,
+              paddingBottom: GRID_PADDING + Math.max(0, rowCount - 1 - lastRow) * rowHeight,
+            }}
+          >
+            {visibleEntries.map((entry) => (
               <HistoryEntryCard 
                 key={entry.id} 
                 entry={entry} 
+                albums={albums}
                 onLoad={onLoad} 
                 onDelete={onDelete} 
+                onUpdate={onUpdate}
+                onCreateAlbum={onCreateAlbum}
               />
             ))}
           </div>
+          {hasMore && (
+            <div ref={sentinelRef} className="flex justify-center pb-4">
+              <Button variant="ghost" size="sm" onClick={onLoadMore} disabled={isLoadingMore} className="text-xs">
+                {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                加载更多
+              </Button>
+            </div>
+          )}
         </ScrollArea>
       </CardContent>
     </Card>
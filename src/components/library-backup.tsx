@@ -0,0 +1,185 @@
+"use client";
+
+import { useRef, useState, type ChangeEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Download, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { addAlbum, addHistory, clearHistory, getAlbums, getHistory } from '@/lib/db';
+import { downloadBlob } from '@/lib/download';
+import { createLibraryArchive, hashEntry, readLibraryArchive } from '@/lib/library-archive';
+import { createThumbnail } from '@/lib/thumbnail';
+import { LibraryStorage } from '@/components/library-storage';
+
+interface LibraryBackupProps {
+  /** Number of history entries in the database. */
+  count: number;
+  /** Called after entries were imported, cleared or pruned, so the history list can reload. */
+  onLibraryChange: () => void;
+}
+
+interface BackupProgress {
+  label: string;
+  value: number;
+}
+
+/**
+ * Exports the history as a ZIP archive and merges such archives back in, skipping entries whose
+ * photo and depth map are already in the library. Also clears the whole history and manages the
+ * storage it takes up.
+ */
+export function LibraryBackup({ count, onLibraryChange }: LibraryBackupProps) {
+  const [progress, setProgress] = useState<BackupProgress | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleExport = async () => {
+    setProgress({ label: '正在打包...', value: 0 });
+    try {
+      // History is listed newest first; the archive lists entries in the order they were made.
+      const [history, albums] = await Promise.all([getHistory(), getAlbums()]);
+      const archive = await createLibraryArchive(history.reverse(), albums, value => setProgress({ label: '正在打包...', value }));
+      downloadBlob(archive, `depthweaver-library-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (error) {
+      console.error("Failed to export library", error);
+      toast({ variant: "destructive", title: "导出资料库失败", description: error instanceof Error ? error.message : "发生未知错误" });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clearing the input lets the same file be picked again.
+    e.target.value = '';
+    if (!file) return;
+
+    setProgress({ label: '正在读取资料库...', value: 0 });
+    try {
+      const entries = await readLibraryArchive(file);
+      const history = await getHistory();
+      // Albums are matched by name and created the first time an imported entry needs one.
+      const albumIds = new Map((await getAlbums()).map(album => [album.name, album.id]));
+      const getAlbumId = async (name: string) => {
+        let id = albumIds.get(name);
+        if (id === undefined) {
+          id = await addAlbum(name);
+          albumIds.set(name, id);
+        }
+        return id;
+      };
+
+      setProgress({ label: '正在检查重复项...', value: 0 });
+      const knownHashes = new Set<string>();
+      for (let i = 0; i < history.length; i++) {
+        knownHashes.add(await hashEntry(history[i]));
+        setProgress({ label: '正在检查重复项...', value: (i + 1) / history.length });
+      }
+
+      let imported = 0;
+      for (let i = 0; i < entries.length; i++) {
+        const { album, ...entry } = entries[i];
+        const hash = await hashEntry(entry);
+        // Duplicates within the archive itself are skipped too.
+        if (!knownHashes.has(hash)) {
+          knownHashes.add(hash);
+          try {
+            entry.thumbnail = await createThumbnail(entry.image);
+          } catch (error) {
+            console.error("Failed to create history thumbnail", error);
+          }
+          await addHistory({ ...entry, ...(album && { albumId: await getAlbumId(album) }) });
+          imported++;
+        }
+        setProgress({ label: `正在导入 ${i + 1}/${entries.length}...`, value: (i + 1) / entries.length });
+      }
+
+      onLibraryChange();
+      const skipped = entries.length - imported;
+      toast({
+        title: "导入完成",
+        description: `已导入 ${imported} 项${skipped > 0 ? `，跳过 ${skipped} 项重复内容` : ''}。`,
+      });
+    } catch (error) {
+      console.error("Failed to import library", error);
+      toast({ variant: "destructive", title: "导入资料库失败", description: error instanceof Error ? error.message : "发生未知错误" });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearHistory();
+      onLibraryChange();
+    } catch (error) {
+      console.error("Failed to clear history from IndexedDB", error);
+      toast({ variant: "destructive", title: "清空历史记录失败", description: error instanceof Error ? error.message : "发生未知错误" });
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl bg-card/80 backdrop-blur-sm border-border/50 shadow-2xl shadow-black/20">
+      <CardHeader>
+        <CardTitle className="text-center text-2xl font-bold">资料库</CardTitle>
+        <CardDescription className="text-center">
+          历史记录只保存在当前浏览器中。导出为压缩包后可在其他设备或清除浏览器数据后重新导入。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={progress !== null || count === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            导出资料库
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={progress !== null}>
+            <Upload className="mr-2 h-4 w-4" />
+            导入资料库
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" disabled={progress !== null || count === 0}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                清空历史记录
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>确定要清空历史记录吗？</AlertDialogTitle>
+                <AlertDialogDescription>
+                  此操作无法撤销。这将永久删除全部 {count} 项历史记录，建议先导出资料库。
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>取消</AlertDialogCancel>
+                <AlertDialogAction onClick={handleClear}>清空</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+        {progress && (
+          <div className="space-y-2">
+            <p className="text-sm text-center text-muted-foreground">{progress.label}</p>
+            <Progress value={progress.value * 100} />
+          </div>
+        )}
+        <input ref={fileInputRef} type="file" accept="application/zip,.zip" className="hidden" onChange={handleImport} />
+        <Separator />
+        <LibraryStorage count={count} onPruned={onLibraryChange} />
+      </CardContent>
+    </Card>
+  );
+}
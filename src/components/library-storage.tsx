@@ -0,0 +1,162 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Eraser, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { deleteHistoryEntries, findPrunableHistory, type PruneOptions } from '@/lib/db';
+
+interface LibraryStorageProps {
+  /** Number of history entries; usage is measured again whenever it changes. */
+  count: number;
+  onPruned: () => void;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const MEGABYTE = 1024 * 1024;
+
+const pruneRules: { value: string; label: string; options: () => PruneOptions }[] = [
+  { value: 'age-30', label: '30 天前的记录', options: () => ({ createdBefore: new Date(Date.now() - 30 * DAY).toISOString() }) },
+  { value: 'age-90', label: '90 天前的记录', options: () => ({ createdBefore: new Date(Date.now() - 90 * DAY).toISOString() }) },
+  { value: 'age-365', label: '一年前的记录', options: () => ({ createdBefore: new Date(Date.now() - 365 * DAY).toISOString() }) },
+  { value: 'size-10', label: '大于 10MB 的记录', options: () => ({ largerThan: 10 * MEGABYTE }) },
+  { value: 'size-25', label: '大于 25MB 的记录', options: () => ({ largerThan: 25 * MEGABYTE }) },
+  { value: 'size-50', label: '大于 50MB 的记录', options: () => ({ largerThan: 50 * MEGABYTE }) },
+];
+
+const formatBytes = (bytes = 0) =>
+  bytes >= 1024 * MEGABYTE ? `${(bytes / 1024 / MEGABYTE).toFixed(2)}GB` : `${(bytes / MEGABYTE).toFixed(1)}MB`;
+
+/** Shows how much of the browser's storage the library uses, and prunes or protects it. */
+export function LibraryStorage({ count, onPruned }: LibraryStorageProps) {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [persisted, setPersisted] = useState<boolean | null>(null);
+  const [pruneRule, setPruneRule] = useState(pruneRules[1].value);
+  const [prunableIds, setPrunableIds] = useState<number[]>([]);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // Storage estimates are missing in some embedded browsers; the meter is then left out.
+    navigator.storage?.estimate?.().then(setEstimate).catch(error => console.error("Failed to estimate storage", error));
+    navigator.storage?.persisted?.().then(setPersisted).catch(error => console.error("Failed to read storage persistence", error));
+  }, [count]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const rule = pruneRules.find(rule => rule.value === pruneRule);
+    if (!rule) return;
+    findPrunableHistory(rule.options())
+      .then(ids => {
+        if (!cancelled) setPrunableIds(ids);
+      })
+      .catch(error => console.error("Failed to find prunable history", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pruneRule, count]);
+
+  const handlePersist = async () => {
+    try {
+      const granted = await navigator.storage.persist();
+      setPersisted(granted);
+      if (!granted) {
+        toast({ variant: "destructive", title: "未能开启持久存储", description: "浏览器拒绝了请求。将本站加入书签或安装为应用后通常更容易获得授权。" });
+      }
+    } catch (error) {
+      console.error("Failed to request persistent storage", error);
+      toast({ variant: "destructive", title: "未能开启持久存储", description: error instanceof Error ? error.message : "发生未知错误" });
+    }
+  };
+
+  const handlePrune = async () => {
+    try {
+      await deleteHistoryEntries(prunableIds);
+      toast({ title: "清理完成", description: `已删除 ${prunableIds.length} 项历史记录。` });
+      onPruned();
+    } catch (error) {
+      console.error("Failed to prune history", error);
+      toast({ variant: "destructive", title: "清理失败", description: error instanceof Error ? error.message : "发生未知错误" });
+    }
+  };
+
+  const usage = estimate?.usage ?? 0;
+  const quota = estimate?.quota ?? 0;
+
+  return (
+    <div className="space-y-4">
+      {estimate && quota > 0 && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <Label>存储空间</Label>
+            <span className="text-muted-foreground">已使用 {formatBytes(usage)} / {formatBytes(quota)}</span>
+          </div>
+          <Progress value={(usage / quota) * 100} />
+        </div>
+      )}
+      {persisted !== null && (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-muted-foreground">
+            {persisted
+              ? '已开启持久存储，浏览器不会在空间不足时自动清除资料库。'
+              : '未开启持久存储，浏览器可能在空间不足时自动清除资料库。'}
+          </p>
+          {!persisted && (
+            <Button variant="outline" size="sm" onClick={handlePersist} className="shrink-0">
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              申请持久存储
+            </Button>
+          )}
+        </div>
+      )}
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="prune-rule-select">清理历史记录</Label>
+          <Select value={pruneRule} onValueChange={setPruneRule}>
+            <SelectTrigger id="prune-rule-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {pruneRules.map(rule => (
+                <SelectItem key={rule.value} value={rule.value}>{rule.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" disabled={prunableIds.length === 0} className="shrink-0">
+              <Eraser className="mr-2 h-4 w-4" />
+              清理 {prunableIds.length} 项
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>确定要清理吗？</AlertDialogTitle>
+              <AlertDialogDescription>
+                此操作无法撤销。这将永久删除 {prunableIds.length} 项{pruneRules.find(rule => rule.value === pruneRule)?.label}，收藏的记录会保留。
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>取消</AlertDialogCancel>
+              <AlertDialogAction onClick={handlePrune}>清理</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useRef, useState, type ChangeEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Save, Trash2, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { addPreset, deletePreset, getPresets, type PresetDbEntry } from '@/lib/db';
+import { downloadBlob } from '@/lib/download';
+import {
+  builtInPresets,
+  createPresetFile,
+  pickPresetSettings,
+  readPresetFile,
+  type PresetSettings,
+  type ScenePreset,
+} from '@/lib/presets';
+import type { SceneSettings } from '@/lib/scene-settings';
+
+interface PresetPickerProps {
+  settings: SceneSettings;
+  onApply: (settings: PresetSettings) => void;
+}
+
+const matchesPreset = (preset: ScenePreset, settings: PresetSettings) =>
+  (Object.keys(preset.settings) as (keyof PresetSettings)[]).every(key => preset.settings[key] === settings[key]);
+
+/** Applies built-in and saved looks to the control panel, and saves, imports and exports them. */
+export function PresetPicker({ settings, onApply }: PresetPickerProps) {
+  const [userPresets, setUserPresets] = useState<PresetDbEntry[]>([]);
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getPresets()
+      .then(setUserPresets)
+      .catch(error => console.error("Failed to load presets from IndexedDB", error));
+  }, []);
+
+  const current = pickPresetSettings(settings);
+  const activeUserPreset = userPresets.find(preset => matchesPreset(preset, current));
+  const activeBuiltInIndex = builtInPresets.findIndex(preset => matchesPreset(preset, current));
+  const activeValue = activeUserPreset
+    ? `user-${activeUserPreset.id}`
+    : activeBuiltInIndex >= 0 ? `builtin-${activeBuiltInIndex}` : 'custom';
+
+  const handleSelect = (value: string) => {
+    const preset = value.startsWith('builtin-')
+      ? builtInPresets[Number(value.slice('builtin-'.length))]
+      : userPresets.find(preset => `user-${preset.id}` === value);
+    if (preset) onApply(preset.settings);
+  };
+
+  const savePresets = async (presets: ScenePreset[]) => {
+    const createdAt = new Date().toISOString();
+    const saved: PresetDbEntry[] = [];
+    for (const preset of presets) {
+      const entry = { ...preset, createdAt };
+      saved.push({ ...entry, id: await addPreset(entry) });
+    }
+    setUserPresets(prev => [...prev, ...saved]);
+  };
+
+  const handleSave = async () => {
+    try {
+      await savePresets([{ name: name.trim(), settings: current }]);
+      setName('');
+      toast({ title: "已保存预设", description: `预设“${name.trim()}”已保存。` });
+    } catch (error) {
+      console.error("Failed to save preset to IndexedDB", error);
+      toast({ variant: "destructive", title: "保存预设失败", description: error instanceof Error ? error.message : "发生未知错误" });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeUserPreset) return;
+    try {
+      await deletePreset(activeUserPreset.id);
+      setUserPresets(prev => prev.filter(preset => preset.id !== activeUserPreset.id));
+    } catch (error) {
+      console.error("Failed to delete preset from IndexedDB", error);
+    }
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clearing the input lets the same file be picked again.
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const presets = await readPresetFile(file);
+      await savePresets(presets);
+      toast({ title: "导入成功", description: `已导入 ${presets.length} 个预设。` });
+    } catch (error) {
+      console.error("Failed to import presets", error);
+      toast({ variant: "destructive", title: "导入预设失败", description: error instanceof Error ? error.message : "发生未知错误" });
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(createPresetFile(userPresets), 'depthweaver-presets.json');
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg p-3 bg-muted/50">
+      <Label htmlFor="preset-select" className="font-semibold">预设</Label>
+      <Select value={activeValue} onValueChange={handleSelect}>
+        <SelectTrigger id="preset-select">
+          <SelectValue placeholder="选择预设" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectLabel>内置预设</SelectLabel>
+            {builtInPresets.map((preset, index) => (
+              <SelectItem key={preset.name} value={`builtin-${index}`}>{preset.name}</SelectItem>
+            ))}
+          </SelectGroup>
+          {userPresets.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>我的预设</SelectLabel>
+              {userPresets.map(preset => (
+                <SelectItem key={preset.id} value={`user-${preset.id}`}>{preset.name}</SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+          <SelectItem value="custom" disabled>自定义</SelectItem>
+        </SelectContent>
+      </Select>
+      <div className="flex gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && name.trim()) handleSave();
+          }}
+          placeholder="将当前设置保存为预设"
+          maxLength={40}
+        />
+        <Button variant="outline" onClick={handleSave} disabled={!name.trim()} className="shrink-0">
+          <Save className="mr-2 h-4 w-4" />
+          保存
+        </Button>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        <Button variant="outline" size="sm" onClick={handleDelete} disabled={!activeUserPreset}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          删除
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" />
+          导入
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={userPresets.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          导出
+        </Button>
+      </div>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+    </div>
+  );
+}
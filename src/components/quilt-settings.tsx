@@ -0,0 +1,117 @@
+"use client";
+
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getQuiltTileSize, quiltPresets, type QuiltOptions } from '@/lib/quilt';
+
+interface QuiltSettingsProps {
+  options: QuiltOptions;
+  onOptionsChange: (options: QuiltOptions) => void;
+}
+
+const MAX_QUILT_SIZE = 8192;
+
+export function QuiltSettings({ options, onOptionsChange }: QuiltSettingsProps) {
+  const update = (patch: Partial<QuiltOptions>) => {
+    const next = { ...options, ...patch };
+    onOptionsChange({ ...next, views: Math.min(next.views, next.columns * next.rows) });
+  };
+
+  const activePreset = quiltPresets.find(preset =>
+    (Object.keys(preset.options) as (keyof QuiltOptions)[]).every(key => preset.options[key] === options[key])
+  );
+  const tile = getQuiltTileSize(options);
+
+  const handleSizeChange = (key: 'width' | 'height', value: string) => {
+    const size = Math.round(Number(value));
+    if (Number.isFinite(size) && size > 0) {
+      update({ [key]: Math.min(MAX_QUILT_SIZE, size) });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="quilt-preset-select">设备预设</Label>
+        <Select
+          value={activePreset?.value ?? 'custom'}
+          onValueChange={(value) => {
+            const preset = quiltPresets.find(p => p.value === value);
+            if (preset) onOptionsChange(preset.options);
+          }}
+        >
+          <SelectTrigger id="quilt-preset-select">
+            <SelectValue placeholder="选择设备预设" />
+          </SelectTrigger>
+          <SelectContent>
+            {quiltPresets.map(preset => (
+              <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+            ))}
+            <SelectItem value="custom" disabled>自定义</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="quilt-columns-slider" className="text-center">列数: {options.columns}</Label>
+          <Slider
+            id="quilt-columns-slider"
+            min={1}
+            max={16}
+            step={1}
+            value={[options.columns]}
+            onValueChange={(value) => update({ columns: value[0] })}
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <Label htmlFor="quilt-rows-slider" className="text-center">行数: {options.rows}</Label>
+          <Slider
+            id="quilt-rows-slider"
+            min={1}
+            max={16}
+            step={1}
+            value={[options.rows]}
+            onValueChange={(value) => update({ rows: value[0] })}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="quilt-views-slider" className="text-center">视图数量: {options.views}</Label>
+        <Slider
+          id="quilt-views-slider"
+          min={2}
+          max={Math.max(2, options.columns * options.rows)}
+          step={1}
+          value={[options.views]}
+          onValueChange={(value) => update({ views: value[0] })}
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="quilt-cone-slider" className="text-center">视锥角度: {options.viewCone}°</Label>
+        <Slider
+          id="quilt-cone-slider"
+          min={10}
+          max={60}
+          step={1}
+          value={[options.viewCone]}
+          onValueChange={(value) => update({ viewCone: value[0] })}
+        />
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label>输出尺寸</Label>
+        <div className="flex items-center gap-2">
+          <Input type="number" min={1} max={MAX_QUILT_SIZE} value={options.width} onChange={(e) => handleSizeChange('width', e.target.value)} aria-label="宽度" />
+          <span className="text-muted-foreground">×</span>
+          <Input type="number" min={1} max={MAX_QUILT_SIZE} value={options.height} onChange={(e) => handleSizeChange('height', e.target.value)} aria-label="高度" />
+        </div>
+        <p className="text-xs text-muted-foreground">每个视图 {tile.width} × {tile.height} 像素</p>
+      </div>
+    </div>
+  );
+}
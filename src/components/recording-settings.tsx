@@ -0,0 +1,246 @@
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Camera, Trash2 } from 'lucide-react';
+import { cameraPathPresets, type CameraPathPreset, type RecordingOptions } from '@/lib/camera-paths';
+import { videoResolutions, type RecordingMode, type VideoContainer, type VideoOutputOptions } from '@/lib/video-encoder';
+import { animatedImageWidths, type AnimatedImageFormat, type AnimatedImageOptions } from '@/lib/animated-image';
+
+interface RecordingSettingsProps {
+  options: RecordingOptions;
+  onOptionsChange: (options: RecordingOptions) => void;
+  output: VideoOutputOptions;
+  onOutputChange: (output: VideoOutputOptions) => void;
+  imageOptions: AnimatedImageOptions;
+  onImageOptionsChange: (imageOptions: AnimatedImageOptions) => void;
+  onCaptureKeyframe: () => void;
+  cameraType: 'perspective' | 'orthographic';
+}
+
+const toDegrees = (radians: number) => (radians * 180 / Math.PI).toFixed(1);
+
+const optionCardClassName = "flex text-sm items-center justify-center rounded-md border-2 border-transparent bg-background/30 p-3 hover:bg-accent/80 hover:text-accent-foreground peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-accent [&:has([data-state=checked])]:border-primary";
+
+const modeDescriptions: Record<RecordingMode, string> = {
+  offline: '逐帧渲染到指定分辨率，不会丢帧，但耗时可能比视频时长更久。浏览器不支持视频编码时将导出 PNG 序列帧压缩包。',
+  realtime: '按屏幕画面实时录制为视频，设备性能不足时可能出现丢帧或卡顿。',
+  'animated-image': '渲染为循环播放的 GIF 或 APNG 动图，便于在聊天软件中分享。',
+};
+
+export function RecordingSettings({ options, onOptionsChange, output, onOutputChange, imageOptions, onImageOptionsChange, onCaptureKeyframe, cameraType }: RecordingSettingsProps) {
+  const update = (patch: Partial<RecordingOptions>) => onOptionsChange({ ...options, ...patch });
+  const updateOutput = (patch: Partial<VideoOutputOptions>) => onOutputChange({ ...output, ...patch });
+  const updateImage = (patch: Partial<AnimatedImageOptions>) => onImageOptionsChange({ ...imageOptions, ...patch });
+
+  const handleResolutionChange = (value: string) => {
+    const [width, height] = value.split('x').map(Number);
+    updateOutput({ width, height });
+  };
+
+  const removeKeyframe = (index: number) => {
+    update({ keyframes: options.keyframes.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2">
+        <Label className="text-center">录制方式</Label>
+        <RadioGroup value={output.mode} onValueChange={(value) => updateOutput({ mode: value as RecordingMode })} className="grid grid-cols-3 gap-2">
+          <div>
+            <RadioGroupItem value="offline" id="mode-offline" className="peer sr-only" />
+            <Label htmlFor="mode-offline" className={optionCardClassName}>离线渲染</Label>
+          </div>
+          <div>
+            <RadioGroupItem value="realtime" id="mode-realtime" className="peer sr-only" />
+            <Label htmlFor="mode-realtime" className={optionCardClassName}>实时录制</Label>
+          </div>
+          <div>
+            <RadioGroupItem value="animated-image" id="mode-animated-image" className="peer sr-only" />
+            <Label htmlFor="mode-animated-image" className={optionCardClassName}>动图</Label>
+          </div>
+        </RadioGroup>
+        <p className="text-xs text-muted-foreground">{modeDescriptions[output.mode]}</p>
+      </div>
+
+      {output.mode === 'animated-image' && (
+        <>
+          <div className="flex flex-col gap-2">
+            <Label className="text-center">动图格式</Label>
+            <RadioGroup value={imageOptions.format} onValueChange={(value) => updateImage({ format: value as AnimatedImageFormat })} className="grid grid-cols-2 gap-2">
+              <div>
+                <RadioGroupItem value="gif" id="image-format-gif" className="peer sr-only" />
+                <Label htmlFor="image-format-gif" className={optionCardClassName}>GIF</Label>
+              </div>
+              <div>
+                <RadioGroupItem value="apng" id="image-format-apng" className="peer sr-only" />
+                <Label htmlFor="image-format-apng" className={optionCardClassName}>APNG</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label className="text-center">宽度</Label>
+            <RadioGroup value={String(imageOptions.width)} onValueChange={(value) => updateImage({ width: Number(value) })} className="grid grid-cols-4 gap-2">
+              {animatedImageWidths.map(width => (
+                <div key={width}>
+                  <RadioGroupItem value={String(width)} id={`image-width-${width}`} className="peer sr-only" />
+                  <Label htmlFor={`image-width-${width}`} className={optionCardClassName}>{width}px</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="image-frames-slider" className="text-center">帧数: {imageOptions.frameCount}</Label>
+            <Slider
+              id="image-frames-slider"
+              min={8}
+              max={60}
+              step={1}
+              value={[imageOptions.frameCount]}
+              onValueChange={(value) => updateImage({ frameCount: value[0] })}
+            />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg p-3 bg-background/30">
+            <div className="space-y-1 pr-4">
+              <Label htmlFor="image-ping-pong" className="font-semibold">往返播放</Label>
+              <p className="text-xs text-muted-foreground">播放到结尾后倒放回起点，循环更加连贯</p>
+            </div>
+            <Switch id="image-ping-pong" checked={imageOptions.pingPong} onCheckedChange={(pingPong) => updateImage({ pingPong })} />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg p-3 bg-background/30">
+            <div className="space-y-1 pr-4">
+              <Label htmlFor="image-dither" className="font-semibold">抖动</Label>
+              <p className="text-xs text-muted-foreground">减少颜色数量后的色带，但会增大文件体积</p>
+            </div>
+            <Switch id="image-dither" checked={imageOptions.dither} onCheckedChange={(dither) => updateImage({ dither })} />
+          </div>
+        </>
+      )}
+
+      {output.mode === 'offline' && (
+        <>
+          <div className="flex flex-col gap-2">
+            <Label className="text-center">视频格式</Label>
+            <RadioGroup value={output.container} onValueChange={(value) => updateOutput({ container: value as VideoContainer })} className="grid grid-cols-2 gap-2">
+              <div>
+                <RadioGroupItem value="mp4" id="container-mp4" className="peer sr-only" />
+                <Label htmlFor="container-mp4" className={optionCardClassName}>MP4 (H.264)</Label>
+              </div>
+              <div>
+                <RadioGroupItem value="webm" id="container-webm" className="peer sr-only" />
+                <Label htmlFor="container-webm" className={optionCardClassName}>WebM (VP9)</Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label className="text-center">分辨率</Label>
+            <RadioGroup value={`${output.width}x${output.height}`} onValueChange={handleResolutionChange} className="grid grid-cols-2 gap-2">
+              {videoResolutions.map(resolution => {
+                const value = `${resolution.width}x${resolution.height}`;
+                return (
+                  <div key={value}>
+                    <RadioGroupItem value={value} id={`resolution-${value}`} className="peer sr-only" />
+                    <Label htmlFor={`resolution-${value}`} className={optionCardClassName}>{resolution.label}</Label>
+                  </div>
+                );
+              })}
+            </RadioGroup>
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="camera-path-select">运镜路径</Label>
+        <Select value={options.path} onValueChange={(value) => update({ path: value as CameraPathPreset })}>
+          <SelectTrigger id="camera-path-select">
+            <SelectValue placeholder="选择运镜路径" />
+          </SelectTrigger>
+          <SelectContent>
+            {cameraPathPresets.map(preset => (
+              <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="recording-duration-slider" className="text-center">单次时长: {(options.duration / 1000).toFixed(1)}秒</Label>
+        <Slider
+          id="recording-duration-slider"
+          min={1000}
+          max={10000}
+          step={500}
+          value={[options.duration]}
+          onValueChange={(value) => update({ duration: value[0] })}
+        />
+      </div>
+
+      {output.mode !== 'animated-image' && (
+        <>
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="recording-loops-slider" className="text-center">循环次数: {options.loops}</Label>
+            <Slider
+              id="recording-loops-slider"
+              min={1}
+              max={5}
+              step={1}
+              value={[options.loops]}
+              onValueChange={(value) => update({ loops: value[0] })}
+            />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label className="text-center">帧率</Label>
+            <RadioGroup value={String(options.fps)} onValueChange={(value) => update({ fps: Number(value) })} className="grid grid-cols-3 gap-2">
+              {[24, 30, 60].map(fps => (
+                <div key={fps}>
+                  <RadioGroupItem value={String(fps)} id={`fps-${fps}`} className="peer sr-only" />
+                  <Label htmlFor={`fps-${fps}`} className={optionCardClassName}>
+                    {fps} fps
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        </>
+      )}
+
+      {options.path === 'keyframes' && (
+        <div className="space-y-3 rounded-lg p-3 bg-muted/50">
+          <div className="flex items-center justify-between">
+            <Label className="font-semibold">关键帧</Label>
+            <Button variant="outline" size="sm" onClick={onCaptureKeyframe}>
+              <Camera className="mr-2 h-4 w-4" />
+              添加当前视角
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">关闭此窗口拖动场景调整视角后，再添加为关键帧。录制时将在关键帧之间平滑过渡，至少需要两个关键帧。</p>
+          {options.keyframes.length > 0 && (
+            <ol className="space-y-2">
+              {options.keyframes.map((keyframe, index) => (
+                <li key={index} className="flex items-center justify-between rounded-md bg-background/30 px-3 py-2 text-xs">
+                  <span>
+                    #{index + 1} 水平 {toDegrees(keyframe.rotationY)}° 垂直 {toDegrees(keyframe.rotationX)}°{' '}
+                    {cameraType === 'perspective' ? `距离 ${keyframe.distance.toFixed(2)}` : `缩放 ${keyframe.zoom.toFixed(2)}`}
+                  </span>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => removeKeyframe(index)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
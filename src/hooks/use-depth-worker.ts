@@ -0,0 +1,192 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { DepthMap } from '@/lib/depth-map';
+import type { MaskImage } from '@/lib/subject-mask';
+import {
+  DepthWorkerError,
+  type DepthWorkerDevice,
+  type DepthWorkerErrorCode,
+  type DepthWorkerProgress,
+  type DepthWorkerRequest,
+  type DepthWorkerResponse,
+} from '@/lib/depth-worker-protocol';
+
+export type LocalModelState =
+  | { status: 'idle' }
+  | { status: 'loading'; model: string; progress: DepthWorkerProgress | null }
+  | { status: 'ready'; model: string }
+  | { status: 'error'; model: string; code: DepthWorkerErrorCode; message: string };
+
+/** A generation or segmentation request that has not finished yet. */
+export interface DepthWorkerJob {
+  id: number;
+  progress: DepthWorkerProgress | null;
+}
+
+interface PendingRequest {
+  onProgress: (progress: DepthWorkerProgress) => void;
+  resolve: (value: DepthMap | MaskImage) => void;
+  reject: (error: DepthWorkerError) => void;
+  /** Set for requests that run as one uninterruptible step, which only a new worker can stop. */
+  restartOnCancel: boolean;
+}
+
+/**
+ * Runs the local depth and segmentation models in src/workers/depth-worker.ts. Generation and
+ * segmentation return promises that reject with a DepthWorkerError; `cancel` rejects a running
+ * request at once with the 'cancelled' code. Tiled generation and segmentation stop at their next
+ * step. A single-pass generation cannot be interrupted, so cancelling it restarts the worker, which
+ * also cancels any segmentation in progress and loads the model again.
+ */
+export function useDepthWorker() {
+  const workerRef = useRef<Worker>();
+  const nextIdRef = useRef(0);
+  // Only the most recent init request updates the model state.
+  const initIdRef = useRef<number | null>(null);
+  // The model to load again after the worker restarts.
+  const lastInitRef = useRef<{ modelName: string; useMirror: boolean } | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const [device, setDevice] = useState<DepthWorkerDevice | null>(null);
+  const [model, setModel] = useState<LocalModelState>({ status: 'idle' });
+  const [generation, setGeneration] = useState<DepthWorkerJob | null>(null);
+  const [segmentation, setSegmentation] = useState<DepthWorkerJob | null>(null);
+
+  const handleResponse = useCallback((response: DepthWorkerResponse) => {
+    const { id } = response.payload;
+    if (response.type === 'device') {
+      setDevice(response.payload.device);
+      return;
+    }
+    if (id === initIdRef.current) {
+      switch (response.type) {
+        case 'progress':
+          setModel(prev => (prev.status === 'loading' ? { ...prev, progress: response.payload.progress } : prev));
+          break;
+        case 'ready':
+          setModel({ status: 'ready', model: response.payload.model });
+          break;
+        case 'error':
+          setModel(prev => ({
+            status: 'error',
+            model: prev.status === 'idle' ? '' : prev.model,
+            code: response.payload.code,
+            message: response.payload.message,
+          }));
+          break;
+      }
+      return;
+    }
+
+    // Replies to cancelled requests find nothing pending and are dropped.
+    const request = pendingRef.current.get(id);
+    if (!request) return;
+    switch (response.type) {
+      case 'progress':
+        request.onProgress(response.payload.progress);
+        break;
+      case 'depth':
+        request.resolve(response.payload.depth);
+        break;
+      case 'mask':
+        request.resolve(response.payload.mask);
+        break;
+      case 'error':
+        request.reject(new DepthWorkerError(response.payload.code, response.payload.message));
+        break;
+    }
+  }, []);
+
+  const startWorker = useCallback(() => {
+    const worker = new Worker(new URL('../workers/depth-worker.ts', import.meta.url));
+    worker.addEventListener('message', (e: MessageEvent<DepthWorkerResponse>) => handleResponse(e.data));
+    workerRef.current = worker;
+    const request: DepthWorkerRequest = { type: 'detect-device', payload: { id: ++nextIdRef.current } };
+    worker.postMessage(request);
+  }, [handleResponse]);
+
+  // Terminating a worker drops its messages, so requests still waiting on it are rejected here.
+  const stopWorker = useCallback((message: string) => {
+    workerRef.current?.terminate();
+    workerRef.current = undefined;
+    pendingRef.current.forEach(request => request.reject(new DepthWorkerError('cancelled', message)));
+    pendingRef.current.clear();
+  }, []);
+
+  useEffect(() => {
+    startWorker();
+    return () => stopWorker('The depth worker was stopped.');
+  }, [startWorker, stopWorker]);
+
+  const run = useCallback(<T extends DepthMap | MaskImage>(
+    createRequest: (id: number) => DepthWorkerRequest,
+    setJob: Dispatch<SetStateAction<DepthWorkerJob | null>>,
+    restartOnCancel = false
+  ) => new Promise<T>((resolve, reject) => {
+    const worker = workerRef.current;
+    if (!worker) {
+      reject(new DepthWorkerError('model-not-ready', 'The depth worker is not running.'));
+      return;
+    }
+    const id = ++nextIdRef.current;
+    const finish = () => {
+      pendingRef.current.delete(id);
+      setJob(job => (job?.id === id ? null : job));
+    };
+    pendingRef.current.set(id, {
+      onProgress: progress => setJob(job => (job?.id === id ? { id, progress } : job)),
+      resolve: value => {
+        finish();
+        // Each request type has a single kind of reply, so the value is the one the caller expects.
+        resolve(value as T);
+      },
+      reject: error => {
+        finish();
+        reject(error);
+      },
+      restartOnCancel,
+    });
+    setJob({ id, progress: null });
+    worker.postMessage(createRequest(id));
+  }), []);
+
+  /** Loads `modelName`, downloading it first if it is not cached. Progress is reported in `model`. */
+  const init = useCallback((modelName: string, useMirror: boolean) => {
+    const worker = workerRef.current;
+    if (!worker) return;
+    const id = ++nextIdRef.current;
+    initIdRef.current = id;
+    lastInitRef.current = { modelName, useMirror };
+    setModel({ status: 'loading', model: modelName, progress: null });
+    const request: DepthWorkerRequest = { type: 'init', payload: { id, model: modelName, useMirror } };
+    worker.postMessage(request);
+  }, []);
+
+  const generate = useCallback(
+    (imageUrl: string, tiles: number) =>
+      run<DepthMap>(id => ({ type: 'generate', payload: { id, imageUrl, tiles } }), setGeneration, tiles <= 1),
+    [run]
+  );
+
+  const segment = useCallback(
+    (imageUrl: string, useMirror: boolean) =>
+      run<MaskImage>(id => ({ type: 'segment', payload: { id, imageUrl, useMirror } }), setSegmentation),
+    [run]
+  );
+
+  const cancel = useCallback((id: number) => {
+    const pending = pendingRef.current.get(id);
+    if (!pending) return;
+    pending.reject(new DepthWorkerError('cancelled', 'The request was cancelled.'));
+    if (pending.restartOnCancel) {
+      stopWorker('The depth worker was restarted.');
+      startWorker();
+      if (lastInitRef.current) init(lastInitRef.current.modelName, lastInitRef.current.useMirror);
+      return;
+    }
+    const request: DepthWorkerRequest = { type: 'cancel', payload: { id } };
+    workerRef.current?.postMessage(request);
+  }, [init, startWorker, stopWorker]);
+
+  return { device, model, generation, segmentation, init, generate, segment, cancel };
+}
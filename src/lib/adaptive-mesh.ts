@@ -0,0 +1,253 @@
+import type { DepthMap } from '@/lib/depth-map';
+
+export interface AdaptiveMeshData {
+  positions: Float32Array;
+  normals: Float32Array;
+  uvs: Float32Array;
+  indices: Uint32Array;
+}
+
+interface Cell {
+  x: number;
+  y: number;
+  size: number;
+  error: number;
+}
+
+const MAX_GRID_SIZE = 2048;
+const MIN_LEVEL = 2;
+// Cells whose bilinear approximation is within half an 8-bit depth step are never split.
+const MIN_ERROR = 0.5 / 255;
+const ERROR_SAMPLES = 8;
+
+class CellQueue {
+  private items: Cell[] = [];
+
+  get length() {
+    return this.items.length;
+  }
+
+  push(cell: Cell) {
+    const items = this.items;
+    items.push(cell);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].error >= items[i].error) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): Cell | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let largest = i;
+        if (left < items.length && items[left].error > items[largest].error) largest = left;
+        if (right < items.length && items[right].error > items[largest].error) largest = right;
+        if (largest === i) break;
+        [items[largest], items[i]] = [items[i], items[largest]];
+        i = largest;
+      }
+    }
+    return top;
+  }
+
+  drain(): Cell[] {
+    const items = this.items;
+    this.items = [];
+    return items;
+  }
+}
+
+/**
+ * Builds a crack-free triangulation of the unit plane (matching `PlaneGeometry(2, 2)`) whose density
+ * follows the depth map: a quadtree is refined where bilinear interpolation misses the depth the most,
+ * until roughly `triangleBudget` triangles are used, then balanced so neighbouring cells differ by at
+ * most one level.
+ */
+export function buildAdaptiveMesh(depth: DepthMap, triangleBudget: number): AdaptiveMeshData {
+  const { width, height, data } = depth;
+  let gridSize = 1;
+  while (gridSize < Math.max(width, height) && gridSize < MAX_GRID_SIZE) gridSize *= 2;
+  gridSize = Math.max(gridSize, 1 << MIN_LEVEL);
+
+  // Bilinear depth lookup in grid coordinates, with y pointing down like the image rows.
+  const sampleDepth = (gx: number, gy: number) => {
+    const px = (gx / gridSize) * (width - 1);
+    const py = (gy / gridSize) * (height - 1);
+    const x0 = Math.floor(px);
+    const y0 = Math.floor(py);
+    const x1 = Math.min(x0 + 1, width - 1);
+    const y1 = Math.min(y0 + 1, height - 1);
+    const fx = px - x0;
+    const fy = py - y0;
+    const d00 = data[y0 * width + x0];
+    const d10 = data[y0 * width + x1];
+    const d01 = data[y1 * width + x0];
+    const d11 = data[y1 * width + x1];
+    return (d00 * (1 - fx) + d10 * fx) * (1 - fy) + (d01 * (1 - fx) + d11 * fx) * fy;
+  };
+
+  const measureError = (x: number, y: number, size: number) => {
+    if (size <= 1) return 0;
+    const tl = sampleDepth(x, y);
+    const tr = sampleDepth(x + size, y);
+    const bl = sampleDepth(x, y + size);
+    const br = sampleDepth(x + size, y + size);
+    const steps = Math.min(size, ERROR_SAMPLES);
+    let maxError = 0;
+    for (let j = 0; j <= steps; j++) {
+      const ty = j / steps;
+      for (let i = 0; i <= steps; i++) {
+        const tx = i / steps;
+        const approx = (tl * (1 - tx) + tr * tx) * (1 - ty) + (bl * (1 - tx) + br * tx) * ty;
+        const actual = sampleDepth(x + tx * size, y + ty * size);
+        maxError = Math.max(maxError, Math.abs(actual - approx));
+      }
+    }
+    return maxError;
+  };
+
+  const vertexKey = (gx: number, gy: number) => gy * (gridSize + 1) + gx;
+  const corners = new Set<number>();
+  const addCorners = (x: number, y: number, size: number) => {
+    corners.add(vertexKey(x, y));
+    corners.add(vertexKey(x + size, y));
+    corners.add(vertexKey(x, y + size));
+    corners.add(vertexKey(x + size, y + size));
+  };
+  const makeCell = (x: number, y: number, size: number): Cell => {
+    addCorners(x, y, size);
+    return { x, y, size, error: measureError(x, y, size) };
+  };
+  const split = (cell: Cell) => {
+    const half = cell.size / 2;
+    return [
+      makeCell(cell.x, cell.y, half),
+      makeCell(cell.x + half, cell.y, half),
+      makeCell(cell.x, cell.y + half, half),
+      makeCell(cell.x + half, cell.y + half, half),
+    ];
+  };
+
+  const queue = new CellQueue();
+  queue.push(makeCell(0, 0, gridSize));
+  const minCellSize = gridSize >> MIN_LEVEL;
+  // Balancing and fan triangulation add roughly half again as many triangles as the two per leaf.
+  const maxLeaves = Math.max(1, Math.floor(triangleBudget / 3));
+  const finished: Cell[] = [];
+
+  while (queue.length > 0 && queue.length + finished.length < maxLeaves) {
+    const cell = queue.pop()!;
+    const mustSplit = cell.size > minCellSize;
+    if (cell.size <= 1 || (!mustSplit && cell.error <= MIN_ERROR)) {
+      finished.push(cell);
+      continue;
+    }
+    split(cell).forEach(child => queue.push(child));
+  }
+  let leaves = finished.concat(queue.drain());
+
+  // Restrict the quadtree: a leaf with a vertex at a quarter point of any edge has a neighbour two
+  // levels deeper and must be split, otherwise the fan triangulation below would leave T-junctions.
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const next: Cell[] = [];
+    for (const cell of leaves) {
+      const { x, y, size } = cell;
+      if (size >= 4) {
+        const q = size / 4;
+        const needsSplit =
+          corners.has(vertexKey(x + q, y)) || corners.has(vertexKey(x + 3 * q, y)) ||
+          corners.has(vertexKey(x + q, y + size)) || corners.has(vertexKey(x + 3 * q, y + size)) ||
+          corners.has(vertexKey(x, y + q)) || corners.has(vertexKey(x, y + 3 * q)) ||
+          corners.has(vertexKey(x + size, y + q)) || corners.has(vertexKey(x + size, y + 3 * q));
+        if (needsSplit) {
+          next.push(...split(cell));
+          changed = true;
+          continue;
+        }
+      }
+      next.push(cell);
+    }
+    leaves = next;
+  }
+
+  const positions: number[] = [];
+  const uvs: number[] = [];
+  const indices: number[] = [];
+  const vertexIndices = new Map<number, number>();
+
+  const addVertex = (gx: number, gy: number) => {
+    const u = gx / gridSize;
+    const v = 1 - gy / gridSize;
+    positions.push(u * 2 - 1, v * 2 - 1, 0);
+    uvs.push(u, v);
+    return positions.length / 3 - 1;
+  };
+  const getVertex = (gx: number, gy: number) => {
+    const key = vertexKey(gx, gy);
+    let index = vertexIndices.get(key);
+    if (index === undefined) {
+      index = addVertex(gx, gy);
+      vertexIndices.set(key, index);
+    }
+    return index;
+  };
+
+  for (const { x, y, size } of leaves) {
+    const half = size / 2;
+    const tl = getVertex(x, y);
+    const tr = getVertex(x + size, y);
+    const bl = getVertex(x, y + size);
+    const br = getVertex(x + size, y + size);
+    const hasMidpoint = (gx: number, gy: number) => size >= 2 && corners.has(vertexKey(gx, gy));
+
+    const left = hasMidpoint(x, y + half);
+    const bottom = hasMidpoint(x + half, y + size);
+    const right = hasMidpoint(x + size, y + half);
+    const top = hasMidpoint(x + half, y);
+
+    if (!left && !bottom && !right && !top) {
+      indices.push(tl, bl, tr, bl, br, tr);
+      continue;
+    }
+
+    // Counter-clockwise ring around the cell, fanned from its centre.
+    const ring = [tl];
+    if (left) ring.push(getVertex(x, y + half));
+    ring.push(bl);
+    if (bottom) ring.push(getVertex(x + half, y + size));
+    ring.push(br);
+    if (right) ring.push(getVertex(x + size, y + half));
+    ring.push(tr);
+    if (top) ring.push(getVertex(x + half, y));
+
+    const center = addVertex(x + half, y + half);
+    for (let i = 0; i < ring.length; i++) {
+      indices.push(center, ring[i], ring[(i + 1) % ring.length]);
+    }
+  }
+
+  const vertexCount = positions.length / 3;
+  const normals = new Float32Array(vertexCount * 3);
+  for (let i = 0; i < vertexCount; i++) {
+    normals[i * 3 + 2] = 1;
+  }
+
+  return {
+    positions: new Float32Array(positions),
+    normals,
+    uvs: new Float32Array(uvs),
+    indices: new Uint32Array(indices),
+  };
+}
@@ -0,0 +1,158 @@
+import { GIFEncoder, nearestColorIndex, quantize, type Palette } from 'gifenc';
+import * as UPNG from 'upng-js';
+
+export type AnimatedImageFormat = 'gif' | 'apng';
+
+export interface AnimatedImageOptions {
+  format: AnimatedImageFormat;
+  /** Output width in pixels; the height follows the image aspect ratio. */
+  width: number;
+  /** Number of rendered frames in one pass of the camera path. */
+  frameCount: number;
+  /** Play the frames forwards and then backwards instead of jumping back to the start. */
+  pingPong: boolean;
+  dither: boolean;
+}
+
+export interface AnimatedImageFile {
+  blob: Blob;
+  fileName: string;
+}
+
+export const animatedImageWidths = [320, 480, 640, 800];
+
+export const DEFAULT_ANIMATED_IMAGE_OPTIONS: AnimatedImageOptions = {
+  format: 'gif',
+  width: 480,
+  frameCount: 24,
+  pingPong: true,
+  dither: true,
+};
+
+const PALETTE_SIZE = 256;
+// Enough pixels for a representative palette without quantizing every frame in full.
+const PALETTE_SAMPLE_PIXELS = 256 * 1024;
+
+/** Builds one palette shared by all frames so colours do not flicker between them. */
+const buildPalette = (frames: ImageData[]) => {
+  const totalPixels = frames.reduce((sum, frame) => sum + frame.width * frame.height, 0);
+  const stride = Math.max(1, Math.ceil(totalPixels / PALETTE_SAMPLE_PIXELS));
+  const sample = new Uint8Array(Math.ceil(totalPixels / stride) * 4);
+
+  let offset = 0;
+  let skip = 0;
+  for (const frame of frames) {
+    for (let i = skip; i < frame.width * frame.height; i += stride) {
+      sample.set(frame.data.subarray(i * 4, i * 4 + 4), offset);
+      offset += 4;
+    }
+    skip = (skip + stride - (frame.width * frame.height) % stride) % stride;
+  }
+
+  return quantize(sample.subarray(0, offset), PALETTE_SIZE);
+};
+
+/**
+ * Maps a frame onto the palette, optionally spreading the quantization error with Floyd–Steinberg
+ * dithering. Nearest-colour lookups are cached on a 5-bit-per-channel grid.
+ */
+const palettize = (frame: ImageData, palette: Palette, dither: boolean, cache: Int16Array) => {
+  const { width, height, data } = frame;
+  const indices = new Uint8Array(width * height);
+  const errors = dither ? new Float32Array(width * height * 3) : null;
+
+  const lookup = (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    if (cache[key] < 0) {
+      cache[key] = nearestColorIndex(palette, [r, g, b]);
+    }
+    return cache[key];
+  };
+
+  const spread = (x: number, y: number, er: number, eg: number, eb: number, weight: number) => {
+    if (!errors || x < 0 || x >= width || y >= height) return;
+    const i = (y * width + x) * 3;
+    errors[i] += er * weight;
+    errors[i + 1] += eg * weight;
+    errors[i + 2] += eb * weight;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let r = data[i * 4];
+      let g = data[i * 4 + 1];
+      let b = data[i * 4 + 2];
+      if (errors) {
+        r = Math.max(0, Math.min(255, Math.round(r + errors[i * 3])));
+        g = Math.max(0, Math.min(255, Math.round(g + errors[i * 3 + 1])));
+        b = Math.max(0, Math.min(255, Math.round(b + errors[i * 3 + 2])));
+      }
+
+      const index = lookup(r, g, b);
+      indices[i] = index;
+
+      if (errors) {
+        const [pr, pg, pb] = palette[index];
+        const er = r - pr;
+        const eg = g - pg;
+        const eb = b - pb;
+        spread(x + 1, y, er, eg, eb, 7 / 16);
+        spread(x - 1, y + 1, er, eg, eb, 3 / 16);
+        spread(x, y + 1, er, eg, eb, 5 / 16);
+        spread(x + 1, y + 1, er, eg, eb, 1 / 16);
+      }
+    }
+  }
+
+  return indices;
+};
+
+const encodeGif = (indexed: Uint8Array[], palette: Palette, width: number, height: number, delay: number) => {
+  const gif = GIFEncoder();
+  indexed.forEach((indices, i) => {
+    gif.writeFrame(indices, width, height, { palette: i === 0 ? palette : undefined, delay, repeat: 0 });
+  });
+  gif.finish();
+  return new Blob([gif.bytes()], { type: 'image/gif' });
+};
+
+const encodeApng = (indexed: Uint8Array[], palette: Palette, width: number, height: number, delay: number) => {
+  // Frames are already reduced to the shared palette, so they are stored losslessly.
+  const frames = indexed.map(indices => {
+    const rgba = new Uint8Array(width * height * 4);
+    for (let i = 0; i < indices.length; i++) {
+      const [r, g, b] = palette[indices[i]];
+      rgba[i * 4] = r;
+      rgba[i * 4 + 1] = g;
+      rgba[i * 4 + 2] = b;
+      rgba[i * 4 + 3] = 255;
+    }
+    return rgba.buffer;
+  });
+  const png = UPNG.encode(frames, width, height, 0, frames.map(() => delay));
+  return new Blob([png], { type: 'image/apng' });
+};
+
+/**
+ * Encodes rendered frames into a looping GIF or APNG. `frameDelay` is the display time of each
+ * frame in milliseconds. Ping-pong playback is handled here by appending the frames in reverse.
+ */
+export function encodeAnimatedImage(frames: ImageData[], frameDelay: number, options: AnimatedImageOptions, baseName: string): AnimatedImageFile {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode.');
+  }
+  const { width, height } = frames[0];
+
+  const palette = buildPalette(frames);
+  const cache = new Int16Array(32 * 32 * 32).fill(-1);
+  const indexed = frames.map(frame => palettize(frame, palette, options.dither, cache));
+  const sequence = options.pingPong && indexed.length > 2
+    ? [...indexed, ...indexed.slice(1, -1).reverse()]
+    : indexed;
+
+  if (options.format === 'gif') {
+    return { blob: encodeGif(sequence, palette, width, height, frameDelay), fileName: `${baseName}.gif` };
+  }
+  return { blob: encodeApng(sequence, palette, width, height, frameDelay), fileName: `${baseName}.png` };
+}
@@ -0,0 +1,126 @@
+export type CameraPathPreset = 'spiral' | 'sway' | 'tilt' | 'circle' | 'dolly-zoom' | 'ken-burns' | 'keyframes';
+
+export interface CameraPose {
+  /** Mesh rotation around the X axis, in radians. */
+  rotationX: number;
+  /** Mesh rotation around the Y axis, in radians. */
+  rotationY: number;
+  /** Perspective camera distance. */
+  distance: number;
+  /** Orthographic camera zoom. */
+  zoom: number;
+  /** Perspective vertical field of view in degrees. */
+  fov: number;
+}
+
+export type CameraKeyframe = CameraPose;
+
+export interface RecordingOptions {
+  path: CameraPathPreset;
+  /** Duration of a single loop in milliseconds. */
+  duration: number;
+  fps: number;
+  loops: number;
+  keyframes: CameraKeyframe[];
+}
+
+export const cameraPathPresets: { value: CameraPathPreset; label: string }[] = [
+  { value: 'spiral', label: '螺旋' },
+  { value: 'sway', label: '水平摇摆' },
+  { value: 'tilt', label: '上下俯仰' },
+  { value: 'circle', label: '环绕' },
+  { value: 'dolly-zoom', label: '滑动变焦' },
+  { value: 'ken-burns', label: '缓慢推进' },
+  { value: 'keyframes', label: '关键帧' },
+];
+
+export const DEFAULT_RECORDING_OPTIONS: RecordingOptions = {
+  path: 'spiral',
+  duration: 3000,
+  fps: 30,
+  loops: 1,
+  keyframes: [],
+};
+
+const easeInOutSine = (t: number) => -(Math.cos(Math.PI * t) - 1) / 2;
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number) => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * (2 * p1 + (-p0 + p2) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (-p0 + 3 * p1 - 3 * p2 + p3) * t3);
+};
+
+const interpolateKeyframes = (keyframes: CameraKeyframe[], progress: number): CameraPose => {
+  if (keyframes.length === 1) return { ...keyframes[0] };
+
+  const segmentCount = keyframes.length - 1;
+  const position = Math.min(progress, 1) * segmentCount;
+  const segment = Math.min(Math.floor(position), segmentCount - 1);
+  const t = position - segment;
+  const at = (index: number) => keyframes[Math.max(0, Math.min(segmentCount, index))];
+  const [k0, k1, k2, k3] = [at(segment - 1), at(segment), at(segment + 1), at(segment + 2)];
+  const lerp = (key: keyof CameraPose) => catmullRom(k0[key], k1[key], k2[key], k3[key], t);
+
+  return {
+    rotationX: lerp('rotationX'),
+    rotationY: lerp('rotationY'),
+    distance: lerp('distance'),
+    zoom: lerp('zoom'),
+    fov: lerp('fov'),
+  };
+};
+
+/**
+ * Returns the camera pose for `progress` (0 to 1) through one loop of the given path. `base` is the pose
+ * the scene is currently shown at and `maxAngle` the view angle limit in radians.
+ */
+export function sampleCameraPath(options: RecordingOptions, progress: number, base: CameraPose, maxAngle: number): CameraPose {
+  const pose: CameraPose = { ...base, rotationX: 0, rotationY: 0 };
+  const wave = Math.sin(progress * Math.PI * 2);
+
+  switch (options.path) {
+    case 'spiral': {
+      // Radius grows from 0 to maxAngle and back while spinning two full circles.
+      const radius = Math.sin(progress * Math.PI) * maxAngle;
+      const angle = easeInOutSine(progress) * Math.PI * 4;
+      pose.rotationY = Math.sin(angle) * radius;
+      pose.rotationX = Math.cos(angle) * radius;
+      break;
+    }
+    case 'sway':
+      pose.rotationY = wave * maxAngle;
+      break;
+    case 'tilt':
+      pose.rotationX = wave * maxAngle;
+      break;
+    case 'circle': {
+      // Ease into and out of the orbit so the loop starts and ends at the resting view.
+      const radius = Math.min(1, Math.sin(progress * Math.PI) * 2) * maxAngle;
+      pose.rotationY = Math.sin(progress * Math.PI * 2) * radius;
+      pose.rotationX = Math.cos(progress * Math.PI * 2) * radius;
+      break;
+    }
+    case 'dolly-zoom': {
+      // Pull the camera back while narrowing the field of view so the subject keeps its size.
+      const amount = Math.sin(progress * Math.PI);
+      pose.distance = base.distance * (1 + amount * 0.8);
+      const halfHeight = base.distance * Math.tan((base.fov * Math.PI) / 360);
+      pose.fov = (Math.atan(halfHeight / pose.distance) * 360) / Math.PI;
+      break;
+    }
+    case 'ken-burns': {
+      const amount = easeInOutSine(progress);
+      pose.distance = base.distance * (1 - amount * 0.3);
+      pose.zoom = base.zoom / (1 - amount * 0.3);
+      pose.rotationY = (amount - 0.5) * maxAngle;
+      break;
+    }
+    case 'keyframes':
+      if (options.keyframes.length > 0) {
+        return interpolateKeyframes(options.keyframes, easeInOutSine(progress));
+      }
+      break;
+  }
+
+  return pose;
+}
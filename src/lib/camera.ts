@@ -0,0 +1,18 @@
+import * as THREE from 'three';
+
+export type SceneCamera = THREE.PerspectiveCamera | THREE.OrthographicCamera;
+
+/** Updates the projection of a scene camera for a new viewport aspect ratio. */
+export function updateCameraAspect(camera: SceneCamera, aspect: number) {
+  if (camera.type === 'PerspectiveCamera') {
+    (camera as THREE.PerspectiveCamera).aspect = aspect;
+  } else if (camera.type === 'OrthographicCamera') {
+    const orthoCam = camera as THREE.OrthographicCamera;
+    const frustumSize = 2;
+    orthoCam.left = frustumSize * aspect / -2;
+    orthoCam.right = frustumSize * aspect / 2;
+    orthoCam.top = frustumSize / 2;
+    orthoCam.bottom = frustumSize / -2;
+  }
+  camera.updateProjectionMatrix();
+}
@@ -1,14 +1,60 @@
 
 import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import { DEFAULT_SCENE_SETTINGS, toStoredSceneSettings, type StoredSceneSettings } from '@/lib/scene-settings';
+import type { ScenePreset } from '@/lib/presets';
+import { isFilterActive, matchesHistoryFilter, type DepthSource, type HistoryFilter } from '@/lib/library';
 
 const DB_NAME = 'DepthWeaverDB';
 const STORE_NAME = 'history';
-const DB_VERSION = 1;
+const PRESET_STORE_NAME = 'presets';
+const ALBUM_STORE_NAME = 'albums';
+const DB_VERSION = 5;
 
 export interface HistoryDbEntry {
   id: number;
   image: File;
   depthMap: File;
+  /** Subject mask from background removal, white inside the subject. */
+  mask?: File;
+  /** Small JPEG of the photo for the history list. Older entries get one when first listed. */
+  thumbnail?: Blob;
+  /** Viewer settings, saved as they are changed. Read them through parseSceneSettings. */
+  settings: StoredSceneSettings;
+  createdAt: string;
+  /** Name given by the user; the list shows the date when it is missing. */
+  title?: string;
+  tags: string[];
+  albumId?: number;
+  /** 1 for favourites. A number rather than a boolean, since booleans cannot be index keys. */
+  favorite: 0 | 1;
+  /** Missing on entries saved before sources were recorded. */
+  source?: DepthSource;
+}
+
+/** Position in the history list: the `createdAt` and `id` of the last entry already loaded. */
+export type HistoryCursor = [createdAt: string, id: number];
+
+export interface HistoryPage {
+  entries: HistoryDbEntry[];
+  /** Where the next page starts, or null when this page is the last. */
+  nextCursor: HistoryCursor | null;
+}
+
+/** Conditions for pruning history; an entry matching any of them is pruned, unless it is a favourite. */
+export interface PruneOptions {
+  createdBefore?: string;
+  /** Prunes entries whose photo, depth map and mask together take more than this many bytes. */
+  largerThan?: number;
+}
+
+export interface PresetDbEntry extends ScenePreset {
+  id: number;
+  createdAt: string;
+}
+
+export interface AlbumDbEntry {
+  id: number;
+  name: string;
   createdAt: string;
 }
 
@@ -16,7 +62,22 @@ interface DepthWeaverSchema extends DBSchema {
   [STORE_NAME]: {
     key: number;
     value: HistoryDbEntry;
-    indexes: { createdAt: string };
+    indexes: {
+      createdAt: string;
+      createdAtId: HistoryCursor;
+      tags: string;
+      albumCreatedAt: [albumId: number, ...HistoryCursor];
+      sourceCreatedAt: [source: DepthSource, ...HistoryCursor];
+      favoriteCreatedAt: [favorite: 0 | 1, ...HistoryCursor];
+    };
+  };
+  [PRESET_STORE_NAME]: {
+    key: number;
+    value: PresetDbEntry;
+  };
+  [ALBUM_STORE_NAME]: {
+    key: number;
+    value: AlbumDbEntry;
   };
 }
 
@@ -25,12 +86,51 @@ let dbPromise: Promise<IDBPDatabase<DepthWeaverSchema>> | null = null;
 function getDb(): Promise<IDBPDatabase<DepthWeaverSchema>> {
   if (!dbPromise) {
     dbPromise = openDB<DepthWeaverSchema>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
-        const store = db.createObjectStore(STORE_NAME, {
-          keyPath: 'id',
-          autoIncrement: true,
-        });
-        store.createIndex('createdAt', 'createdAt');
+      async upgrade(db, oldVersion, _newVersion, transaction) {
+        if (oldVersion < 1) {
+          const store = db.createObjectStore(STORE_NAME, {
+            keyPath: 'id',
+            autoIncrement: true,
+          });
+          store.createIndex('createdAt', 'createdAt');
+        }
+        if (oldVersion < 2) {
+          // Entries saved before settings were stored open with the defaults they always had.
+          let cursor = await transaction.objectStore(STORE_NAME).openCursor();
+          while (cursor) {
+            if (!cursor.value.settings) {
+              await cursor.update({ ...cursor.value, settings: toStoredSceneSettings(DEFAULT_SCENE_SETTINGS) });
+            }
+            cursor = await cursor.continue();
+          }
+        }
+        if (oldVersion < 3) {
+          db.createObjectStore(PRESET_STORE_NAME, {
+            keyPath: 'id',
+            autoIncrement: true,
+          });
+        }
+        if (oldVersion < 4) {
+          // Entries can share a timestamp, so pages are cut by timestamp and id together.
+          transaction.objectStore(STORE_NAME).createIndex('createdAtId', ['createdAt', 'id']);
+        }
+        if (oldVersion < 5) {
+          db.createObjectStore(ALBUM_STORE_NAME, {
+            keyPath: 'id',
+            autoIncrement: true,
+          });
+          const store = transaction.objectStore(STORE_NAME);
+          store.createIndex('tags', 'tags', { multiEntry: true });
+          // Each filter index ends in the timestamp and id, so filtered lists page like the full one.
+          store.createIndex('albumCreatedAt', ['albumId', 'createdAt', 'id']);
+          store.createIndex('sourceCreatedAt', ['source', 'createdAt', 'id']);
+          store.createIndex('favoriteCreatedAt', ['favorite', 'createdAt', 'id']);
+          let cursor = await store.openCursor();
+          while (cursor) {
+            await cursor.update({ ...cursor.value, tags: cursor.value.tags ?? [], favorite: cursor.value.favorite ?? 0 });
+            cursor = await cursor.continue();
+          }
+        }
       },
     });
   }
@@ -48,6 +148,137 @@ export async function getHistory(): Promise<HistoryDbEntry[]> {
   return db.getAllFromIndex(STORE_NAME, 'createdAt').then(items => items.reverse());
 }
 
+/**
+ * Picks the index that narrows `filter` down the most and the key range within it. Album, source
+ * and favourite lead their index's keys, followed by the timestamp, so the date range applies too.
+ * An array sorts after every string and number, which makes `[]` an open upper end. Returns null
+ * when the date range is empty, which IDBKeyRange would reject.
+ */
+function getHistoryQuery(filter: HistoryFilter, after: HistoryCursor | null) {
+  if (filter.from && filter.to && filter.from > filter.to) return null;
+  let index: 'createdAtId' | 'albumCreatedAt' | 'sourceCreatedAt' | 'favoriteCreatedAt' = 'createdAtId';
+  let prefix: IDBValidKey[] = [];
+  if (filter.albumId !== undefined) {
+    index = 'albumCreatedAt';
+    prefix = [filter.albumId];
+  } else if (filter.source) {
+    index = 'sourceCreatedAt';
+    prefix = [filter.source];
+  } else if (filter.favorite) {
+    index = 'favoriteCreatedAt';
+    prefix = [1];
+  }
+  const lower = [...prefix, filter.from ?? ''];
+  const range = after
+    ? IDBKeyRange.bound(lower, [...prefix, ...after], false, true)
+    : IDBKeyRange.bound(lower, filter.to ? [...prefix, filter.to, []] : [...prefix, []]);
+  return { index, range };
+}
+
+/**
+ * Calls `visit` with each entry matching `filter`, newest first, starting after `after`, until it
+ * returns false. Returns whether the walk was stopped that way before the end.
+ */
+async function walkHistory(
+  filter: HistoryFilter,
+  after: HistoryCursor | null,
+  visit: (entry: HistoryDbEntry) => boolean
+): Promise<boolean> {
+  const query = getHistoryQuery(filter, after);
+  if (!query) return false;
+  const db = await getDb();
+  const tx = db.transaction(STORE_NAME);
+  const index = tx.store.index(query.index);
+
+  if (filter.tag) {
+    // The tag index names the entries to read; the rest of the ordering index is walked by key alone.
+    const taggedIds = new Set(await tx.store.index('tags').getAllKeys(filter.tag));
+    if (taggedIds.size === 0) return false;
+    let cursor = await index.openKeyCursor(query.range, 'prev');
+    while (cursor) {
+      if (taggedIds.has(cursor.primaryKey)) {
+        const entry = await tx.store.get(cursor.primaryKey);
+        if (entry && matchesHistoryFilter(entry, filter) && !visit(entry)) return true;
+      }
+      cursor = await cursor.continue();
+    }
+    return false;
+  }
+
+  let cursor = await index.openCursor(query.range, 'prev');
+  while (cursor) {
+    if (matchesHistoryFilter(cursor.value, filter) && !visit(cursor.value)) return true;
+    cursor = await cursor.continue();
+  }
+  return false;
+}
+
+/** Loads up to `limit` entries matching `filter`, newest first, starting after `after`. */
+export async function getHistoryPage(after: HistoryCursor | null, limit: number, filter: HistoryFilter = {}): Promise<HistoryPage> {
+  const entries: HistoryDbEntry[] = [];
+  // The walk goes one entry past the page, so a full page is only given a next page if there is one.
+  const hasMore = await walkHistory(filter, after, entry => {
+    if (entries.length === limit) return false;
+    entries.push(entry);
+    return true;
+  });
+  const last = entries[entries.length - 1];
+  return { entries, nextCursor: hasMore && last ? [last.createdAt, last.id] : null };
+}
+
+export async function countHistory(filter: HistoryFilter = {}): Promise<number> {
+  const db = await getDb();
+  if (!isFilterActive(filter)) {
+    return db.count(STORE_NAME);
+  }
+  if (filter.tag && !isFilterActive({ ...filter, tag: undefined })) {
+    return db.countFromIndex(STORE_NAME, 'tags', filter.tag);
+  }
+  let count = 0;
+  await walkHistory(filter, null, () => {
+    count++;
+    return true;
+  });
+  return count;
+}
+
+/** Every tag in use, in alphabetical order. */
+export async function getHistoryTags(): Promise<string[]> {
+  const db = await getDb();
+  const tags: string[] = [];
+  let cursor = await db.transaction(STORE_NAME).store.index('tags').openKeyCursor(null, 'nextunique');
+  while (cursor) {
+    tags.push(cursor.key);
+    cursor = await cursor.continue();
+  }
+  return tags;
+}
+
+export const getEntrySize = (entry: HistoryDbEntry) =>
+  entry.image.size + entry.depthMap.size + (entry.mask?.size ?? 0);
+
+/** Ids of the entries matching `options`, to be removed with deleteHistoryEntries. */
+export async function findPrunableHistory(options: PruneOptions): Promise<number[]> {
+  const { createdBefore, largerThan } = options;
+  const db = await getDb();
+  const ids: number[] = [];
+  let cursor = await db.transaction(STORE_NAME).store.openCursor();
+  while (cursor) {
+    const entry = cursor.value;
+    if (!entry.favorite && ((createdBefore !== undefined && entry.createdAt < createdBefore) || (largerThan !== undefined && getEntrySize(entry) > largerThan))) {
+      ids.push(entry.id);
+    }
+    cursor = await cursor.continue();
+  }
+  return ids;
+}
+
+export async function deleteHistoryEntries(ids: number[]): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  await Promise.all([...ids.map(id => tx.store.delete(id)), tx.done]);
+}
+
 export async function deleteHistory(id: number): Promise<void> {
   const db = await getDb();
   return db.delete(STORE_NAME, id);
@@ -57,3 +288,55 @@ export async function clearHistory(): Promise<void> {
   const db = await getDb();
   return db.clear(STORE_NAME);
 }
+
+export async function updateHistory(id: number, changes: Partial<Omit<HistoryDbEntry, 'id'>>): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const entry = await tx.store.get(id);
+  if (!entry) {
+    throw new Error(`History entry ${id} not found`);
+  }
+  await tx.store.put({ ...entry, ...changes });
+  await tx.done;
+}
+
+export async function addPreset(preset: Omit<PresetDbEntry, 'id'>): Promise<number> {
+  const db = await getDb();
+  return db.add(PRESET_STORE_NAME, preset as PresetDbEntry);
+}
+
+export async function getPresets(): Promise<PresetDbEntry[]> {
+  const db = await getDb();
+  // Keys increase with insertion, so this lists the oldest first.
+  return db.getAll(PRESET_STORE_NAME);
+}
+
+export async function deletePreset(id: number): Promise<void> {
+  const db = await getDb();
+  return db.delete(PRESET_STORE_NAME, id);
+}
+
+export async function addAlbum(name: string): Promise<number> {
+  const db = await getDb();
+  return db.add(ALBUM_STORE_NAME, { name, createdAt: new Date().toISOString() } as AlbumDbEntry);
+}
+
+export async function getAlbums(): Promise<AlbumDbEntry[]> {
+  const db = await getDb();
+  return db.getAll(ALBUM_STORE_NAME);
+}
+
+/** Deletes an album. Its entries stay in the history without an album. */
+export async function deleteAlbum(id: number): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction([STORE_NAME, ALBUM_STORE_NAME], 'readwrite');
+  const range = IDBKeyRange.bound([id], [id, []]);
+  let cursor = await tx.objectStore(STORE_NAME).index('albumCreatedAt').openCursor(range);
+  while (cursor) {
+    const { albumId: _albumId, ...entry } = cursor.value;
+    await cursor.update(entry);
+    cursor = await cursor.continue();
+  }
+  await tx.objectStore(ALBUM_STORE_NAME).delete(id);
+  await tx.done;
+}
@@ -0,0 +1,100 @@
+import { resizeDepthMap, type DepthMap } from '@/lib/depth-map';
+
+/** How a depth map is fitted to a photo with a different aspect ratio. */
+export type AlignMode = 'crop' | 'letterbox' | 'stretch';
+
+export const alignModes: { value: AlignMode; label: string; description: string }[] = [
+  { value: 'crop', label: '裁剪', description: '居中裁掉深度图多出的部分，适用于照片由原图裁剪而来的情况' },
+  { value: 'letterbox', label: '补边', description: '保持深度图完整并居中，空缺部分用边缘的深度延伸填充' },
+  { value: 'stretch', label: '拉伸', description: '将深度图直接拉伸到照片的比例，画面会产生变形' },
+];
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Depth models round their output to multiples of their patch size, which shifts the aspect ratio
+// by a percent or two, so only larger differences are reported.
+const ASPECT_TOLERANCE = 0.03;
+// Share of the height taken as the top and bottom bands, and of each side as the border.
+const BAND_SIZE = 0.2;
+const BORDER_SIZE = 0.1;
+// Minimum combined evidence, in depth units, before a map is reported as inverted.
+const INVERSION_THRESHOLD = 0.1;
+
+/** Relative difference between the aspect ratios of `a` and `b`. */
+export const getAspectDifference = (a: Size, b: Size) => {
+  const aspectA = a.width / a.height;
+  const aspectB = b.width / b.height;
+  return Math.abs(aspectA - aspectB) / Math.min(aspectA, aspectB);
+};
+
+export const hasAspectMismatch = (image: Size, depth: Size) => getAspectDifference(image, depth) > ASPECT_TOLERANCE;
+
+/**
+ * Fits `depth` to the aspect ratio of `target`, keeping the depth map's resolution. Cropping and
+ * letterboxing keep the depth map's scale along one side; letterbox padding repeats the edge rows
+ * or columns so the bars do not become a wall of far depth at the frame edge.
+ */
+export function alignDepthMap(depth: DepthMap, target: Size, mode: AlignMode): DepthMap {
+  const targetAspect = target.width / target.height;
+  if (mode === 'stretch') {
+    const height = Math.max(1, Math.round(Math.sqrt((depth.width * depth.height) / targetAspect)));
+    return resizeDepthMap(depth, Math.max(1, Math.round(height * targetAspect)), height);
+  }
+
+  const targetIsWider = targetAspect > depth.width / depth.height;
+  // Cropping a map that is too wide, or padding one that is too narrow, changes its width.
+  const changesWidth = (mode === 'crop') !== targetIsWider;
+  const width = changesWidth ? Math.max(1, Math.round(depth.height * targetAspect)) : depth.width;
+  const height = changesWidth ? depth.height : Math.max(1, Math.round(depth.width / targetAspect));
+  const offsetX = Math.round((depth.width - width) / 2);
+  const offsetY = Math.round((depth.height - height) / 2);
+
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const sourceY = Math.min(depth.height - 1, Math.max(0, y + offsetY));
+    for (let x = 0; x < width; x++) {
+      const sourceX = Math.min(depth.width - 1, Math.max(0, x + offsetX));
+      data[y * width + x] = depth.data[sourceY * depth.width + sourceX];
+    }
+  }
+  return { data, width, height };
+}
+
+const meanOf = (depth: DepthMap, include: (x: number, y: number) => boolean) => {
+  let sum = 0;
+  let count = 0;
+  for (let y = 0; y < depth.height; y++) {
+    for (let x = 0; x < depth.width; x++) {
+      if (!include(x, y)) continue;
+      sum += depth.data[y * depth.width + x];
+      count++;
+    }
+  }
+  return count ? sum / count : 0;
+};
+
+/**
+ * Guesses whether `depth` uses the opposite convention, dark for near. Most photos have the ground
+ * at the bottom and the subject in the middle, so a map whose top and border are nearer than its
+ * bottom and centre is probably inverted. This is a heuristic and only worth a suggestion.
+ */
+export function isLikelyInverted(depth: DepthMap): boolean {
+  const { width, height } = depth;
+  const band = Math.max(1, Math.round(height * BAND_SIZE));
+  const borderX = Math.max(1, Math.round(width * BORDER_SIZE));
+  const borderY = Math.max(1, Math.round(height * BORDER_SIZE));
+
+  const top = meanOf(depth, (_, y) => y < band);
+  const bottom = meanOf(depth, (_, y) => y >= height - band);
+  const border = meanOf(depth, (x, y) => x < borderX || x >= width - borderX || y < borderY || y >= height - borderY);
+  const center = meanOf(depth, (x, y) => Math.abs(x - width / 2) < width / 4 && Math.abs(y - height / 2) < height / 4);
+
+  return (top - bottom) + (border - center) > INVERSION_THRESHOLD;
+}
+
+export function invertDepthMap(depth: DepthMap): DepthMap {
+  return { ...depth, data: depth.data.map(value => 1 - value) };
+}
@@ -0,0 +1,321 @@
+import type { DepthMap } from '@/lib/depth-map';
+
+// Editing operations for the depth editor. They change a `DepthMap` in place and return the
+// rectangle they touched, so the view only redraws and the undo history only stores that area.
+
+export type BrushTool = 'pull' | 'push' | 'smooth' | 'flatten';
+
+export interface EditRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BrushOptions {
+  tool: BrushTool;
+  /** Radius in depth map pixels. */
+  radius: number;
+  /** 0 to 1. */
+  strength: number;
+  /** Depth the flatten brush levels towards, usually sampled where the stroke started. */
+  flattenTarget: number;
+}
+
+export interface LinearGradient {
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+  startValue: number;
+  endValue: number;
+  /** How much of the gradient replaces the existing depth, from 0 to 1. */
+  strength: number;
+}
+
+export interface LevelsOptions {
+  inputLow: number;
+  inputHigh: number;
+  /** Midtone exponent applied between the input levels; values above 1 brighten. */
+  gamma: number;
+  outputLow: number;
+  outputHigh: number;
+  /** Curve outputs for inputs of 0.25, 0.5 and 0.75 after levels; 0 and 1 stay fixed. */
+  curve: [number, number, number];
+}
+
+export const DEFAULT_LEVELS: LevelsOptions = {
+  inputLow: 0,
+  inputHigh: 1,
+  gamma: 1,
+  outputLow: 0,
+  outputHigh: 1,
+  curve: [0.25, 0.5, 0.75],
+};
+
+// Depth added or removed by a single full-strength push or pull dab at the brush centre.
+const BRUSH_STEP = 0.04;
+// Undo steps are dropped, oldest first, once the stored patches exceed this many bytes.
+const MAX_HISTORY_BYTES = 256 * 1024 * 1024;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export const fullRect = (depth: DepthMap): EditRect => ({ x: 0, y: 0, width: depth.width, height: depth.height });
+
+export function unionRect(a: EditRect | null, b: EditRect): EditRect {
+  if (!a) return b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+const getBrushRect = (depth: DepthMap, cx: number, cy: number, radius: number): EditRect | null => {
+  const x0 = Math.max(0, Math.floor(cx - radius));
+  const y0 = Math.max(0, Math.floor(cy - radius));
+  const x1 = Math.min(depth.width, Math.ceil(cx + radius) + 1);
+  const y1 = Math.min(depth.height, Math.ceil(cy + radius) + 1);
+  if (x1 <= x0 || y1 <= y0) return null;
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+/**
+ * Box-blurs `rect` of `depth` with the given radius, reading up to `radius` pixels outside it.
+ * Both passes use prefix sums so large brushes cost no more per pixel than small ones.
+ */
+const blurRect = (depth: DepthMap, rect: EditRect, radius: number) => {
+  const { width, height, data } = depth;
+  const x0 = Math.max(0, rect.x - radius);
+  const x1 = Math.min(width, rect.x + rect.width + radius);
+  const y0 = Math.max(0, rect.y - radius);
+  const y1 = Math.min(height, rect.y + rect.height + radius);
+  const prefix = new Float64Array(Math.max(x1 - x0, y1 - y0) + 1);
+
+  // Horizontal means for the rect's columns, over every row the vertical pass reads.
+  const horizontal = new Float32Array(rect.width * (y1 - y0));
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) prefix[x - x0 + 1] = prefix[x - x0] + data[y * width + x];
+    for (let x = 0; x < rect.width; x++) {
+      const low = Math.max(x0, rect.x + x - radius) - x0;
+      const high = Math.min(x1 - 1, rect.x + x + radius) - x0 + 1;
+      horizontal[(y - y0) * rect.width + x] = (prefix[high] - prefix[low]) / (high - low);
+    }
+  }
+
+  const blurred = new Float32Array(rect.width * rect.height);
+  for (let x = 0; x < rect.width; x++) {
+    for (let y = y0; y < y1; y++) prefix[y - y0 + 1] = prefix[y - y0] + horizontal[(y - y0) * rect.width + x];
+    for (let y = 0; y < rect.height; y++) {
+      const low = Math.max(y0, rect.y + y - radius) - y0;
+      const high = Math.min(y1 - 1, rect.y + y + radius) - y0 + 1;
+      blurred[y * rect.width + x] = (prefix[high] - prefix[low]) / (high - low);
+    }
+  }
+  return blurred;
+};
+
+/** Applies one dab of the brush centred at `cx`, `cy`, with a smooth falloff towards its edge. */
+export function applyBrushDab(depth: DepthMap, cx: number, cy: number, options: BrushOptions): EditRect | null {
+  const { radius, strength, tool } = options;
+  const rect = getBrushRect(depth, cx, cy, radius);
+  if (!rect) return null;
+
+  const blurred = tool === 'smooth' ? blurRect(depth, rect, Math.max(1, Math.round(radius / 4))) : null;
+  const { data, width } = depth;
+  for (let y = 0; y < rect.height; y++) {
+    for (let x = 0; x < rect.width; x++) {
+      const dx = rect.x + x - cx;
+      const dy = rect.y + y - cy;
+      const distance = Math.sqrt(dx * dx + dy * dy) / radius;
+      if (distance >= 1) continue;
+      const falloff = (1 - distance * distance) ** 2;
+      const amount = strength * falloff;
+      const index = (rect.y + y) * width + rect.x + x;
+      const value = data[index];
+
+      switch (tool) {
+        case 'pull':
+          data[index] = clamp01(value + amount * BRUSH_STEP);
+          break;
+        case 'push':
+          data[index] = clamp01(value - amount * BRUSH_STEP);
+          break;
+        case 'smooth':
+          data[index] = value + (blurred![y * rect.width + x] - value) * amount;
+          break;
+        case 'flatten':
+          data[index] = value + (options.flattenTarget - value) * amount * 0.5;
+          break;
+      }
+    }
+  }
+  return rect;
+}
+
+/** Blends a linear ramp from `startValue` to `endValue` along the drag line into the whole map. */
+export function applyLinearGradient(depth: DepthMap, gradient: LinearGradient): EditRect {
+  const { data, width, height } = depth;
+  const dx = gradient.endX - gradient.startX;
+  const dy = gradient.endY - gradient.startY;
+  const lengthSquared = dx * dx + dy * dy;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const t = lengthSquared > 0 ? clamp01(((x - gradient.startX) * dx + (y - gradient.startY) * dy) / lengthSquared) : 0;
+      const target = gradient.startValue + (gradient.endValue - gradient.startValue) * t;
+      const index = y * width + x;
+      data[index] += (target - data[index]) * gradient.strength;
+    }
+  }
+  return fullRect(depth);
+}
+
+/** Fritsch–Carlson monotone cubic through points sorted by x, so the curve never folds back. */
+const createMonotoneCurve = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  const slopes = xs.slice(0, -1).map((x, i) => (ys[i + 1] - ys[i]) / (xs[i + 1] - x));
+  const tangents = xs.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const magnitude = a * a + b * b;
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude);
+      tangents[i] = scale * a * slopes[i];
+      tangents[i + 1] = scale * b * slopes[i];
+    }
+  }
+
+  return (x: number) => {
+    let i = 0;
+    while (i < n - 2 && x > xs[i + 1]) i++;
+    const h = xs[i + 1] - xs[i];
+    const t = (x - xs[i]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * ys[i]
+      + (t3 - 2 * t2 + t) * h * tangents[i]
+      + (-2 * t3 + 3 * t2) * ys[i + 1]
+      + (t3 - t2) * h * tangents[i + 1];
+  };
+};
+
+export const isDefaultLevels = (levels: LevelsOptions) =>
+  (Object.keys(DEFAULT_LEVELS) as (keyof LevelsOptions)[]).every(key =>
+    JSON.stringify(levels[key]) === JSON.stringify(DEFAULT_LEVELS[key]));
+
+/** Returns the mapping of a depth value through `levels`, then through its curve. */
+export function createLevelsMapping(levels: LevelsOptions) {
+  const curve = createMonotoneCurve([0, 0.25, 0.5, 0.75, 1], [0, ...levels.curve, 1]);
+  const inputRange = Math.max(1e-6, levels.inputHigh - levels.inputLow);
+  return (value: number) => {
+    const normalized = clamp01((value - levels.inputLow) / inputRange) ** (1 / levels.gamma);
+    const leveled = levels.outputLow + normalized * (levels.outputHigh - levels.outputLow);
+    return clamp01(curve(leveled));
+  };
+}
+
+export function applyLevels(depth: DepthMap, levels: LevelsOptions): EditRect {
+  const mapping = createLevelsMapping(levels);
+  for (let i = 0; i < depth.data.length; i++) {
+    depth.data[i] = mapping(depth.data[i]);
+  }
+  return fullRect(depth);
+}
+
+export function computeHistogram(depth: DepthMap, bins: number) {
+  const histogram = new Uint32Array(bins);
+  for (const value of depth.data) {
+    histogram[Math.min(bins - 1, Math.floor(clamp01(value) * bins))]++;
+  }
+  return histogram;
+}
+
+interface EditPatch {
+  rect: EditRect;
+  before: Float32Array;
+  after: Float32Array;
+}
+
+const copyRect = (source: Float32Array, width: number, rect: EditRect) => {
+  const patch = new Float32Array(rect.width * rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const start = (rect.y + y) * width + rect.x;
+    patch.set(source.subarray(start, start + rect.width), y * rect.width);
+  }
+  return patch;
+};
+
+const pasteRect = (target: Float32Array, width: number, rect: EditRect, patch: Float32Array) => {
+  for (let y = 0; y < rect.height; y++) {
+    target.set(patch.subarray(y * rect.width, (y + 1) * rect.width), (rect.y + y) * width + rect.x);
+  }
+};
+
+/**
+ * Undo and redo for edits to a depth map. Call `begin` before an edit and `commit` with the area
+ * it changed afterwards; only that area is kept for each step.
+ */
+export class DepthEditHistory {
+  private undoStack: EditPatch[] = [];
+  private redoStack: EditPatch[] = [];
+  private snapshot: Float32Array | null = null;
+
+  constructor(private readonly depth: DepthMap) {}
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  begin() {
+    this.snapshot = this.depth.data.slice();
+  }
+
+  commit(rect: EditRect | null) {
+    const snapshot = this.snapshot;
+    this.snapshot = null;
+    if (!snapshot || !rect) return;
+
+    const { data, width } = this.depth;
+    this.undoStack.push({ rect, before: copyRect(snapshot, width, rect), after: copyRect(data, width, rect) });
+    this.redoStack = [];
+
+    let bytes = this.undoStack.reduce((sum, patch) => sum + patch.before.byteLength * 2, 0);
+    while (bytes > MAX_HISTORY_BYTES && this.undoStack.length > 1) {
+      const dropped = this.undoStack.shift()!;
+      bytes -= dropped.before.byteLength * 2;
+    }
+  }
+
+  undo(): EditRect | null {
+    const patch = this.undoStack.pop();
+    if (!patch) return null;
+    pasteRect(this.depth.data, this.depth.width, patch.rect, patch.before);
+    this.redoStack.push(patch);
+    return patch.rect;
+  }
+
+  redo(): EditRect | null {
+    const patch = this.redoStack.pop();
+    if (!patch) return null;
+    pasteRect(this.depth.data, this.depth.width, patch.rect, patch.after);
+    this.undoStack.push(patch);
+    return patch.rect;
+  }
+}
@@ -0,0 +1,266 @@
+import * as THREE from 'three';
+import * as UPNG from 'upng-js';
+import { zlibSync } from 'fflate';
+import { EXRLoader } from 'three/examples/jsm/loaders/EXRLoader.js';
+
+/** A single-channel depth map in the scene's convention: 1 is nearest and 0 is farthest. */
+export interface DepthMap {
+  /** Rows from top to bottom. */
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const EXR_MAGIC = [0x76, 0x2f, 0x31, 0x01];
+// PNG stores the bit depth right after the width and height in the IHDR chunk.
+const PNG_BIT_DEPTH_OFFSET = 24;
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+const hasPrefix = (bytes: Uint8Array, prefix: number[]) => prefix.every((byte, i) => bytes[i] === byte);
+
+/** Stretches finite values to the 0 to 1 range in place; anything else becomes 0, the far end. */
+export function normalizeDepthValues(values: Float32Array) {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (!Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  const range = max - min;
+  for (let i = 0; i < values.length; i++) {
+    values[i] = Number.isFinite(values[i]) && range > 0 ? (values[i] - min) / range : 0;
+  }
+  return values;
+}
+
+const flipRows = (values: Float32Array, width: number, height: number) => {
+  const flipped = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    flipped.set(values.subarray((height - 1 - y) * width, (height - y) * width), y * width);
+  }
+  return flipped;
+};
+
+const decodePng16 = (bytes: Uint8Array): DepthMap => {
+  const png = UPNG.decode(bytes.slice().buffer);
+  const channels = PNG_CHANNELS[png.ctype];
+  if (!channels) {
+    throw new Error('Unsupported 16-bit PNG colour type.');
+  }
+  // The typings promise an ArrayBuffer, but some versions of UPNG return a Uint8Array.
+  const raw = new Uint8Array(png.data);
+  const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+  const data = new Float32Array(png.width * png.height);
+  for (let i = 0; i < data.length; i++) {
+    // Samples are big-endian; only the first channel is used, as with 8-bit maps.
+    data[i] = view.getUint16(i * channels * 2) / 65535;
+  }
+  return { data, width: png.width, height: png.height };
+};
+
+/**
+ * OpenEXR depth is taken to be distance from the camera, as rendered by 3D tools, and is converted
+ * to normalised inverse depth to match what depth estimation models produce.
+ */
+const decodeExr = (bytes: Uint8Array): DepthMap => {
+  const loader = new EXRLoader();
+  loader.setDataType(THREE.FloatType);
+  const exr = loader.parse(bytes.slice().buffer);
+  const channels = exr.format === THREE.RedFormat ? 1 : 4;
+  const values = new Float32Array(exr.width * exr.height);
+  for (let i = 0; i < values.length; i++) {
+    const distance = exr.data[i * channels];
+    values[i] = distance > 0 ? 1 / distance : NaN;
+  }
+  // EXRLoader returns rows bottom to top for upload to WebGL.
+  return { data: flipRows(normalizeDepthValues(values), exr.width, exr.height), width: exr.width, height: exr.height };
+};
+
+/**
+ * PFM is the format MiDaS and related models write their raw output in, which is already relative
+ * inverse depth, so it is only normalised.
+ */
+const decodePfm = (bytes: Uint8Array): DepthMap => {
+  // The header is three whitespace separated tokens after the type: width, height and scale.
+  const header = new TextDecoder('ascii').decode(bytes.subarray(0, 256));
+  const match = /^(P[Ff])\s+(\d+)\s+(\d+)\s+(\S+)\s/.exec(header);
+  if (!match) {
+    throw new Error('Invalid PFM header.');
+  }
+  const channels = match[1] === 'PF' ? 3 : 1;
+  const width = Number(match[2]);
+  const height = Number(match[3]);
+  // A negative scale marks little-endian samples.
+  const littleEndian = Number(match[4]) < 0;
+  const offset = match[0].length;
+  if (bytes.length < offset + width * height * channels * 4) {
+    throw new Error('PFM file is truncated.');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset);
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = view.getFloat32(i * channels * 4, littleEndian);
+  }
+  // PFM rows run from bottom to top.
+  return { data: flipRows(normalizeDepthValues(values), width, height), width, height };
+};
+
+/**
+ * Decodes depth formats with more than 8 bits per sample: 16-bit PNG, OpenEXR and PFM. Returns null
+ * for anything else, which the browser's image decoder handles.
+ */
+export function decodeHighPrecisionDepth(bytes: Uint8Array): DepthMap | null {
+  if (hasPrefix(bytes, PNG_SIGNATURE)) {
+    return bytes[PNG_BIT_DEPTH_OFFSET] === 16 ? decodePng16(bytes) : null;
+  }
+  if (hasPrefix(bytes, EXR_MAGIC)) {
+    return decodeExr(bytes);
+  }
+  if (bytes[0] === 0x50 && (bytes[1] === 0x66 || bytes[1] === 0x46)) {
+    return decodePfm(bytes);
+  }
+  return null;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const createPngChunk = (type: string, payload: Uint8Array) => {
+  const chunk = new Uint8Array(12 + payload.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, payload.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(payload, 8);
+  // The CRC covers the chunk type and data.
+  let crc = 0xffffffff;
+  for (let i = 4; i < 8 + payload.length; i++) {
+    crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+  }
+  view.setUint32(8 + payload.length, (crc ^ 0xffffffff) >>> 0);
+  return chunk;
+};
+
+/** Encodes `depth` as a 16-bit grayscale PNG, the format depth maps are stored and shared in. */
+export function encodeDepthPng(depth: DepthMap): Blob {
+  const { width, height } = depth;
+  const rowLength = 1 + width * 2;
+  const scanlines = new Uint8Array(rowLength * height);
+  const samples = new DataView(scanlines.buffer);
+  for (let y = 0; y < height; y++) {
+    // Filter type 1 stores each byte as the difference to the same byte of the previous sample,
+    // which compresses smooth depth gradients well.
+    const row = y * rowLength;
+    scanlines[row] = 1;
+    for (let x = 0; x < width; x++) {
+      samples.setUint16(row + 1 + x * 2, Math.round(THREE.MathUtils.clamp(depth.data[y * width + x], 0, 1) * 65535));
+    }
+    for (let i = rowLength - 1; i > 2; i--) {
+      scanlines[row + i] = (scanlines[row + i] - scanlines[row + i - 2]) & 0xff;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 16; // bit depth
+  header[9] = 0; // grayscale
+
+  return new Blob([
+    new Uint8Array(PNG_SIGNATURE),
+    createPngChunk('IHDR', header),
+    createPngChunk('IDAT', zlibSync(scanlines)),
+    createPngChunk('IEND', new Uint8Array(0)),
+  ], { type: 'image/png' });
+}
+
+/**
+ * Converts OpenEXR and PFM depth files to a 16-bit PNG that can be previewed and stored like any
+ * other depth map; other files are returned unchanged.
+ */
+export async function readDepthFile(file: File): Promise<File> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (hasPrefix(bytes, PNG_SIGNATURE)) return file;
+
+  const depth = decodeHighPrecisionDepth(bytes);
+  if (!depth) return file;
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return new File([encodeDepthPng(depth)], `${baseName}.png`, { type: 'image/png' });
+}
+
+/** Loads a depth map at full precision, reading the first channel of ordinary 8-bit images. */
+export async function loadDepthMap(url: string): Promise<DepthMap> {
+  const response = await fetch(url);
+  const blob = await response.blob();
+  const depth = decodeHighPrecisionDepth(new Uint8Array(await blob.arrayBuffer()));
+  if (depth) return depth;
+
+  const bitmap = await createImageBitmap(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get 2d context from canvas');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+  const data = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = pixels[i * 4] / 255;
+  }
+  return { data, width: canvas.width, height: canvas.height };
+}
+
+/** Bilinear lookup at `u`, `v` in 0 to 1, with `v` running down the rows like image coordinates. */
+export function sampleDepth({ data, width, height }: DepthMap, u: number, v: number) {
+  const px = THREE.MathUtils.clamp(u, 0, 1) * (width - 1);
+  const py = THREE.MathUtils.clamp(v, 0, 1) * (height - 1);
+  const x0 = Math.floor(px);
+  const y0 = Math.floor(py);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const fx = px - x0;
+  const fy = py - y0;
+  const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+  const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+export function resizeDepthMap(depth: DepthMap, width: number, height: number): DepthMap {
+  if (depth.width === width && depth.height === height) return depth;
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const v = height > 1 ? y / (height - 1) : 0.5;
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = sampleDepth(depth, width > 1 ? x / (width - 1) : 0.5, v);
+    }
+  }
+  return { data, width, height };
+}
+
+/**
+ * Uploads a single-channel depth texture for the shaders. Full float precision is used where the
+ * GPU can filter it; elsewhere half floats still give far finer steps than 8 bits.
+ */
+export function createDepthTexture(depth: DepthMap, renderer: THREE.WebGLRenderer) {
+  const texture = renderer.extensions.has('OES_texture_float_linear')
+    ? new THREE.DataTexture(depth.data, depth.width, depth.height, THREE.RedFormat, THREE.FloatType)
+    : new THREE.DataTexture(Uint16Array.from(depth.data, value => THREE.DataUtils.toHalfFloat(value)), depth.width, depth.height, THREE.RedFormat, THREE.HalfFloatType);
+  texture.flipY = true;
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.generateMipmaps = false;
+  texture.needsUpdate = true;
+  return texture;
+}
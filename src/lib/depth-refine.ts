@@ -0,0 +1,105 @@
+import { resizeDepthMap, type DepthMap } from '@/lib/depth-map';
+
+// Edge-aware refinement of a depth map against its photo with a guided filter (He et al.). Within
+// each window the refined depth is a linear function of the photo's brightness, so depth edges
+// snap to the photo's edges while flat regions of the photo are smoothed.
+
+export interface GuideImage {
+  /** RGBA pixels, as in `ImageData`. */
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface RefineOptions {
+  /** Window radius in pixels of the guide image. */
+  radius: number;
+  /** How much of the refined result replaces the upsampled input, from 0 to 1. */
+  strength: number;
+}
+
+export const DEFAULT_REFINE_OPTIONS: RefineOptions = { radius: 12, strength: 0.8 };
+
+// The filter holds about ten float copies of the image, so the guide is capped at this size.
+export const REFINE_MAX_SIZE = 2048;
+// Regularisation on guide intensities in 0 to 1. Smaller values follow fainter edges but start to
+// copy surface texture from the photo into the depth.
+const EPSILON = 1e-3;
+// Box filter passes, for progress reporting.
+const FILTER_STEPS = 6;
+
+/** Mean over a (2r + 1)² window, clipped at the image edges. */
+const boxMean = (values: Float32Array, width: number, height: number, radius: number) => {
+  const horizontal = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) sum += values[row + x];
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width) sum += values[row + x + radius];
+      if (x - radius - 1 >= 0) sum -= values[row + x - radius - 1];
+      horizontal[row + x] = sum / (Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1);
+    }
+  }
+  const output = new Float32Array(values.length);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = 0; y < Math.min(radius, height); y++) sum += horizontal[y * width + x];
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) sum += horizontal[(y + radius) * width + x];
+      if (y - radius - 1 >= 0) sum -= horizontal[(y - radius - 1) * width + x];
+      output[y * width + x] = sum / (Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1);
+    }
+  }
+  return output;
+};
+
+/**
+ * Upsamples `depth` to the size of `guide` and aligns its edges with the photo's. The photo is
+ * filtered by brightness, which keeps the cost to a handful of box filters at any radius.
+ */
+export function refineDepth(depth: DepthMap, guide: GuideImage, options: RefineOptions, onProgress?: (progress: number) => void): DepthMap {
+  const { width, height } = guide;
+  const size = width * height;
+  const input = resizeDepthMap(depth, width, height).data;
+  const radius = Math.max(1, Math.round(options.radius));
+
+  const intensity = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    intensity[i] = (guide.data[i * 4] * 0.299 + guide.data[i * 4 + 1] * 0.587 + guide.data[i * 4 + 2] * 0.114) / 255;
+  }
+
+  let step = 0;
+  const filter = (values: Float32Array) => {
+    const result = boxMean(values, width, height, radius);
+    onProgress?.(++step / FILTER_STEPS);
+    return result;
+  };
+
+  const meanI = filter(intensity);
+  const meanP = filter(input);
+  const product = new Float32Array(size);
+  for (let i = 0; i < size; i++) product[i] = intensity[i] * intensity[i];
+  const meanII = filter(product);
+  for (let i = 0; i < size; i++) product[i] = intensity[i] * input[i];
+  const meanIP = filter(product);
+
+  // Per-window coefficients of depth = a * intensity + b, reusing the buffers they replace.
+  const a = meanII;
+  const b = meanIP;
+  for (let i = 0; i < size; i++) {
+    const variance = meanII[i] - meanI[i] * meanI[i];
+    const covariance = meanIP[i] - meanI[i] * meanP[i];
+    a[i] = covariance / (variance + EPSILON);
+    b[i] = meanP[i] - a[i] * meanI[i];
+  }
+  const meanA = filter(a);
+  const meanB = filter(b);
+
+  const data = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const refined = meanA[i] * intensity[i] + meanB[i];
+    data[i] = Math.min(1, Math.max(0, input[i] + (refined - input[i]) * options.strength));
+  }
+  return { data, width, height };
+}
@@ -0,0 +1,59 @@
+import type { DepthMap } from '@/lib/depth-map';
+import type { MaskImage } from '@/lib/subject-mask';
+
+// Messages between the UI and src/workers/depth-worker.ts. Every request carries an id that the
+// worker echoes in its responses, so replies to superseded or cancelled requests can be told apart.
+
+export type DepthWorkerDevice = 'webgpu' | 'wasm';
+
+export type DepthWorkerRequest =
+  | { type: 'detect-device'; payload: { id: number } }
+  | { type: 'init'; payload: { id: number; model: string; useMirror: boolean } }
+  // `tiles` is the number of tiles across the photo's longer side; below 2 the model runs once.
+  | { type: 'generate'; payload: { id: number; imageUrl: string; tiles: number } }
+  | { type: 'segment'; payload: { id: number; imageUrl: string; useMirror: boolean } }
+  | { type: 'cancel'; payload: { id: number } };
+
+export type DepthWorkerPhase =
+  | 'download'
+  | 'load'
+  | 'inference'
+  | 'tiles'
+  | 'segmentation-download'
+  | 'segmentation';
+
+/**
+ * Progress of a request. Downloads report bytes in `loaded` and `total`; tiled generation reports
+ * finished tiles. `percent` runs from 0 to 100 when the phase has a known length.
+ */
+export interface DepthWorkerProgress {
+  phase: DepthWorkerPhase;
+  percent?: number;
+  loaded?: number;
+  total?: number;
+  file?: string;
+}
+
+export type DepthWorkerErrorCode =
+  | 'cancelled'
+  | 'model-not-ready'
+  | 'model-load-failed'
+  | 'image-load-failed'
+  | 'inference-failed'
+  | 'segmentation-failed';
+
+export type DepthWorkerResponse =
+  | { type: 'device'; payload: { id: number; device: DepthWorkerDevice } }
+  | { type: 'progress'; payload: { id: number; progress: DepthWorkerProgress } }
+  | { type: 'ready'; payload: { id: number; model: string } }
+  | { type: 'depth'; payload: { id: number; depth: DepthMap } }
+  | { type: 'mask'; payload: { id: number; mask: MaskImage } }
+  | { type: 'error'; payload: { id: number; code: DepthWorkerErrorCode; message: string } };
+
+/** Error raised for a failed request, carrying the worker's error code. */
+export class DepthWorkerError extends Error {
+  constructor(readonly code: DepthWorkerErrorCode, message: string) {
+    super(message);
+    this.name = 'DepthWorkerError';
+  }
+}
@@ -0,0 +1,314 @@
+import { canvasToBlob } from '@/lib/download';
+import { encodeDepthPng, type DepthMap } from '@/lib/depth-map';
+import { createSegment, insertSegments } from '@/lib/jpeg';
+import { md5Hex } from '@/lib/md5';
+
+// Reads depth maps that Google Camera and other Android camera apps embed in portrait JPEGs, either
+// as GDepth XMP properties (with the image base64-encoded in extended XMP) or as a Dynamic Depth
+// container whose items are appended after the primary JPEG. Exports are written in the GDepth
+// form, which both Google Photos and this reader understand.
+
+export type DepthFormat = 'RangeInverse' | 'RangeLinear';
+
+interface EmbeddedDepth {
+  data: Blob;
+  format: DepthFormat;
+  near: number;
+  far: number;
+}
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const EXTENDED_XMP_HEADER = 'http://ns.adobe.com/xmp/extension/\0';
+// Extended XMP chunks start with a 32 character GUID, the full length and the chunk offset.
+const EXTENDED_XMP_PREAMBLE = 32 + 4 + 4;
+
+const GDEPTH_NAMESPACE = 'http://ns.google.com/photos/1.0/depthmap/';
+const XMP_NOTE_NAMESPACE = 'http://ns.adobe.com/xmp/note/';
+// APP1 payloads are limited to 65533 bytes, which has to cover the header and preamble as well.
+const EXTENDED_XMP_CHUNK_SIZE = 65400;
+// Exported maps are relative, so the range written with them is nominal. With RangeInverse encoding
+// one minus the scene's value decodes back to exactly that value for any near and far.
+const EXPORT_NEAR = 1;
+const EXPORT_FAR = 10;
+
+const decoder = new TextDecoder('utf-8');
+const encoder = new TextEncoder();
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+/** Reads an XMP property written either as an attribute or as a simple element. */
+const getXmpValue = (xmp: string, name: string) => {
+  const attribute = new RegExp(`${name}="([^"]*)"`).exec(xmp);
+  if (attribute) return attribute[1];
+  const element = new RegExp(`<${name}>([^<]*)</${name}>`).exec(xmp);
+  return element?.[1];
+};
+
+/** Collects the standard XMP packet and the reassembled extended XMP from the APP1 segments. */
+const readXmp = (bytes: Uint8Array) => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let standard = '';
+  const extended = new Map<string, { offset: number; data: Uint8Array }[]>();
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Metadata always comes before the scan data.
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const start = offset + 4;
+    const end = offset + 2 + length;
+
+    if (marker === 0xe1 && startsWith(bytes, start, XMP_HEADER)) {
+      standard = decoder.decode(bytes.subarray(start + XMP_HEADER.length, end));
+    } else if (marker === 0xe1 && startsWith(bytes, start, EXTENDED_XMP_HEADER)) {
+      const chunkStart = start + EXTENDED_XMP_HEADER.length;
+      const guid = decoder.decode(bytes.subarray(chunkStart, chunkStart + 32));
+      const view = new DataView(bytes.buffer, bytes.byteOffset + chunkStart + 32, 8);
+      const chunks = extended.get(guid) ?? [];
+      chunks.push({ offset: view.getUint32(4), data: bytes.subarray(chunkStart + EXTENDED_XMP_PREAMBLE, end) });
+      extended.set(guid, chunks);
+    }
+    offset = end;
+  }
+
+  // The standard packet names the GUID of the extended packet that belongs to it.
+  const guid = getXmpValue(standard, 'xmpNote:HasExtendedXMP');
+  const chunks = (guid && extended.get(guid)) || extended.values().next().value || [];
+  const extendedXmp = chunks
+    .sort((a, b) => a.offset - b.offset)
+    .map(chunk => decoder.decode(chunk.data))
+    .join('');
+
+  return { standard, extended: extendedXmp };
+};
+
+const parseFormat = (value: string | undefined): DepthFormat =>
+  value === 'RangeLinear' ? 'RangeLinear' : 'RangeInverse';
+
+const base64ToBytes = (base64: string) => {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const readGDepth = (xmp: string): EmbeddedDepth | null => {
+  const data = getXmpValue(xmp, 'GDepth:Data');
+  if (!data) return null;
+  return {
+    data: new Blob([base64ToBytes(data)], { type: getXmpValue(xmp, 'GDepth:Mime') ?? 'image/jpeg' }),
+    format: parseFormat(getXmpValue(xmp, 'GDepth:Format')),
+    near: Number(getXmpValue(xmp, 'GDepth:Near')),
+    far: Number(getXmpValue(xmp, 'GDepth:Far')),
+  };
+};
+
+const readDynamicDepth = (xmp: string, bytes: Uint8Array): EmbeddedDepth | null => {
+  const items = Array.from(xmp.matchAll(/<Container:Item\b[^>]*>/g), match => ({
+    mime: getXmpValue(match[0], 'Item:Mime') ?? 'image/jpeg',
+    semantic: getXmpValue(match[0], 'Item:Semantic'),
+    length: Number(getXmpValue(match[0], 'Item:Length') ?? 0),
+    padding: Number(getXmpValue(match[0], 'Item:Padding') ?? 0),
+  }));
+  if (items.length < 2) return null;
+
+  const depthSemantic = getXmpValue(xmp, 'DepthMap:ItemSemantic') ?? 'Depth';
+  // The primary image is listed first; every other item is appended after it in directory order,
+  // so the items are located from the end of the file.
+  const appendedLength = items.slice(1).reduce((sum, item) => sum + item.length + item.padding, 0);
+  let offset = bytes.length - appendedLength;
+  if (offset < 0) return null;
+
+  for (const item of items.slice(1)) {
+    if (item.semantic === depthSemantic) {
+      return {
+        data: new Blob([bytes.subarray(offset, offset + item.length)], { type: item.mime }),
+        format: parseFormat(getXmpValue(xmp, 'DepthMap:Format')),
+        near: Number(getXmpValue(xmp, 'DepthMap:Near')),
+        far: Number(getXmpValue(xmp, 'DepthMap:Far')),
+      };
+    }
+    offset += item.length + item.padding;
+  }
+  return null;
+};
+
+/**
+ * Converts an encoded depth sample `value` (0 to 1) into the convention the scene uses: normalised
+ * inverse depth, bright for near and dark for far.
+ */
+export function toNearBright(value: number, format: DepthFormat, near: number, far: number) {
+  if (!(near > 0 && far > near)) {
+    // Without a usable range both encodings still grow with distance.
+    return 1 - value;
+  }
+  const depth = format === 'RangeInverse'
+    ? (far * near) / (far - value * (far - near))
+    : near + value * (far - near);
+  return (1 / depth - 1 / far) / (1 / near - 1 / far);
+}
+
+const decodeDepthImage = async ({ data, format, near, far }: EmbeddedDepth) => {
+  const bitmap = await createImageBitmap(data);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get 2d context from canvas');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+  // Only 256 input levels exist, so convert through a lookup table. The conversion is not linear,
+  // so the result keeps 16 bits to avoid merging levels.
+  const table = new Float32Array(256);
+  for (let i = 0; i < 256; i++) {
+    table[i] = toNearBright(i / 255, format, near, far);
+  }
+  const values = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = table[pixels[i * 4]];
+  }
+  return encodeDepthPng({ data: values, width: canvas.width, height: canvas.height });
+};
+
+/**
+ * Looks for a depth map embedded in a JPEG's XMP metadata and returns it as a 16-bit grayscale PNG in
+ * the scene's depth convention, or null when the file carries no depth.
+ */
+export async function extractEmbeddedDepth(file: File): Promise<File | null> {
+  if (file.type && file.type !== 'image/jpeg') return null;
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const xmp = readXmp(bytes);
+  if (!xmp) return null;
+
+  const combined = xmp.standard + xmp.extended;
+  const depth = readGDepth(combined) ?? readDynamicDepth(combined, bytes);
+  if (!depth) return null;
+
+  const png = await decodeDepthImage(depth);
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return new File([png], `${baseName}-depth.png`, { type: 'image/png' });
+}
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Convert in slices to stay within the argument limit of String.fromCharCode.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const createXmpPacket = (properties: Record<string, string>, namespaces: Record<string, string>) => {
+  const attributes = [
+    ...Object.entries(namespaces).map(([prefix, uri]) => ` xmlns:${prefix}="${uri}"`),
+    ...Object.entries(properties).map(([name, value]) => ` ${name}="${value}"`),
+  ].join('');
+  return '<x:xmpmeta xmlns:x="adobe:ns:meta/">'
+    + '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">'
+    + `<rdf:Description rdf:about=""${attributes}/>`
+    + '</rdf:RDF></x:xmpmeta>';
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+/** Splits the extended packet into APP1 segments tagged with its GUID, length and chunk offset. */
+const createExtendedXmpSegments = (extended: Uint8Array, guid: string) => {
+  const segments: Uint8Array[] = [];
+  for (let offset = 0; offset < extended.length; offset += EXTENDED_XMP_CHUNK_SIZE) {
+    const preamble = new Uint8Array(8);
+    const view = new DataView(preamble.buffer);
+    view.setUint32(0, extended.length);
+    view.setUint32(4, offset);
+    segments.push(createSegment(0xe1, concatBytes([
+      encoder.encode(EXTENDED_XMP_HEADER),
+      encoder.encode(guid),
+      preamble,
+      extended.subarray(offset, offset + EXTENDED_XMP_CHUNK_SIZE),
+    ])));
+  }
+  return segments;
+};
+
+/**
+ * Encodes a depth map in the scene's convention as a RangeInverse PNG, where bright means far. Photo
+ * apps expect 8-bit depth images, so the map is quantised.
+ */
+const encodeDepthImage = (depth: DepthMap) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = depth.width;
+  canvas.height = depth.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get 2d context from canvas');
+  }
+  const imageData = context.createImageData(depth.width, depth.height);
+  const pixels = imageData.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const value = Math.round((1 - depth.data[i / 4]) * 255);
+    pixels[i] = value;
+    pixels[i + 1] = value;
+    pixels[i + 2] = value;
+    pixels[i + 3] = 255;
+  }
+  context.putImageData(imageData, 0, 0);
+  return canvasToBlob(canvas);
+};
+
+/**
+ * Embeds `depth`, a depth map in the scene's convention, into the JPEG `color` as GDepth XMP, so the
+ * photo opens with its depth in other apps and `extractEmbeddedDepth` reads the same map back.
+ * `color` must not carry XMP of its own, which holds for JPEGs encoded from a canvas.
+ */
+export async function createDepthJpeg(color: Blob, depth: DepthMap): Promise<Blob> {
+  const [colorBytes, depthPng] = await Promise.all([
+    color.arrayBuffer().then(buffer => new Uint8Array(buffer)),
+    encodeDepthImage(depth),
+  ]);
+
+  // The depth image is far larger than a single APP1 segment, so it goes in the extended packet,
+  // which the standard packet references by its MD5 digest.
+  const extended = encoder.encode(createXmpPacket(
+    { 'GDepth:Data': bytesToBase64(new Uint8Array(await depthPng.arrayBuffer())) },
+    { GDepth: GDEPTH_NAMESPACE },
+  ));
+  const guid = md5Hex(extended);
+  const standard = encoder.encode(createXmpPacket(
+    {
+      'GDepth:Format': 'RangeInverse',
+      'GDepth:Near': String(EXPORT_NEAR),
+      'GDepth:Far': String(EXPORT_FAR),
+      'GDepth:Units': 'm',
+      'GDepth:MeasureType': 'OpticalAxis',
+      'GDepth:Mime': 'image/png',
+      'xmpNote:HasExtendedXMP': guid,
+    },
+    { GDepth: GDEPTH_NAMESPACE, xmpNote: XMP_NOTE_NAMESPACE },
+  ));
+
+  const jpeg = insertSegments(colorBytes, [
+    createSegment(0xe1, concatBytes([encoder.encode(XMP_HEADER), standard])),
+    ...createExtendedXmpSegments(extended, guid),
+  ]);
+  return new Blob([jpeg], { type: 'image/jpeg' });
+}
@@ -0,0 +1,40 @@
+// Helpers for adding metadata segments to the baseline JPEGs the browser's canvas encoder produces.
+
+/** Wraps `payload` in a marker segment; the length field counts itself but not the marker. */
+export function createSegment(marker: number, payload: Uint8Array) {
+  const length = 2 + payload.length;
+  if (length > 0xffff) {
+    throw new Error('JPEG segment is too large.');
+  }
+  const segment = new Uint8Array(2 + length);
+  segment.set([0xff, marker, length >> 8, length & 0xff], 0);
+  segment.set(payload, 4);
+  return segment;
+}
+
+/** Offset just past SOI and any APP0/APP1 segments, where further application segments belong. */
+export function findInsertOffset(jpeg: Uint8Array) {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    throw new Error('Invalid JPEG data.');
+  }
+  let offset = 2;
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff && (jpeg[offset + 1] === 0xe0 || jpeg[offset + 1] === 0xe1)) {
+    offset += 2 + ((jpeg[offset + 2] << 8) | jpeg[offset + 3]);
+  }
+  return offset;
+}
+
+/** Inserts `segments` in order at the offset returned by `findInsertOffset`. */
+export function insertSegments(jpeg: Uint8Array, segments: Uint8Array[]) {
+  const offset = findInsertOffset(jpeg);
+  const segmentsLength = segments.reduce((sum, segment) => sum + segment.length, 0);
+  const output = new Uint8Array(jpeg.length + segmentsLength);
+  output.set(jpeg.subarray(0, offset), 0);
+  let position = offset;
+  for (const segment of segments) {
+    output.set(segment, position);
+    position += segment.length;
+  }
+  output.set(jpeg.subarray(offset), position);
+  return output;
+}
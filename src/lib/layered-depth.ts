@@ -0,0 +1,77 @@
+import type { DepthMap } from '@/lib/depth-map';
+
+export interface BackgroundLayer {
+  width: number;
+  height: number;
+  /** Single-channel depth, with foreground objects pushed back to the surrounding background depth. */
+  depth: Float32Array;
+  /** RGBA colour, with disoccluded pixels filled from the background pixel their depth came from. */
+  color: Uint8Array;
+}
+
+/**
+ * Builds the hidden layer of a layered depth image: every pixel takes the farthest depth
+ * found within `radius`, together with the colour of the pixel that depth belongs to.
+ * `depth` and `color` must share the same dimensions.
+ */
+export function buildBackgroundLayer(depth: DepthMap, color: ImageData, radius: number): BackgroundLayer {
+  const { width, height } = depth;
+  if (color.width !== width || color.height !== height) {
+    throw new Error('Depth and colour data must have the same size.');
+  }
+
+  const pixelCount = width * height;
+  const rowMin = new Float32Array(pixelCount);
+  const rowSource = new Uint32Array(pixelCount);
+
+  // Horizontal pass: farthest (smallest) depth in each row window.
+  for (let y = 0; y < height; y++) {
+    const rowOffset = y * width;
+    for (let x = 0; x < width; x++) {
+      let minValue = Infinity;
+      let minIndex = rowOffset + x;
+      const start = Math.max(0, x - radius);
+      const end = Math.min(width - 1, x + radius);
+      for (let sx = start; sx <= end; sx++) {
+        const value = depth.data[rowOffset + sx];
+        if (value < minValue) {
+          minValue = value;
+          minIndex = rowOffset + sx;
+        }
+      }
+      rowMin[rowOffset + x] = minValue;
+      rowSource[rowOffset + x] = minIndex;
+    }
+  }
+
+  const layerDepth = new Float32Array(pixelCount);
+  const layerColor = new Uint8Array(pixelCount * 4);
+
+  // Vertical pass over the row minima, carrying along the pixel each minimum came from.
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      let minValue = Infinity;
+      let minSource = y * width + x;
+      const start = Math.max(0, y - radius);
+      const end = Math.min(height - 1, y + radius);
+      for (let sy = start; sy <= end; sy++) {
+        const index = sy * width + x;
+        if (rowMin[index] < minValue) {
+          minValue = rowMin[index];
+          minSource = rowSource[index];
+        }
+      }
+
+      const target = (y * width + x) * 4;
+      layerDepth[y * width + x] = minValue;
+
+      const source = minSource * 4;
+      layerColor[target] = color.data[source];
+      layerColor[target + 1] = color.data[source + 1];
+      layerColor[target + 2] = color.data[source + 2];
+      layerColor[target + 3] = 255;
+    }
+  }
+
+  return { width, height, depth: layerDepth, color: layerColor };
+}
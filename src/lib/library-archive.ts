@@ -0,0 +1,202 @@
+import { strToU8, Unzip, UnzipInflate, Zip, ZipPassThrough } from 'fflate';
+import type { AlbumDbEntry, HistoryDbEntry } from '@/lib/db';
+import { depthSources, parseTags, type DepthSource } from '@/lib/library';
+import { parseSceneSettings, toStoredSceneSettings } from '@/lib/scene-settings';
+
+// Identifies archives written by this app; `version` is the layout of the manifest.
+const ARCHIVE_FORMAT = 'depthweaver-library';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+interface ArchiveFile {
+  path: string;
+  name: string;
+  type: string;
+}
+
+interface ManifestEntry {
+  createdAt: string;
+  settings: unknown;
+  title?: string;
+  tags?: string[];
+  /** Albums are stored by name, since ids differ between libraries. */
+  album?: string;
+  favorite?: boolean;
+  source?: DepthSource;
+  image: ArchiveFile;
+  depthMap: ArchiveFile;
+  mask?: ArchiveFile;
+}
+
+interface Manifest {
+  format: string;
+  version: number;
+  exportedAt: string;
+  entries: ManifestEntry[];
+}
+
+/** An entry read from an archive. Its album is still a name, to be matched to or made into an album. */
+export type ArchivedEntry = Omit<HistoryDbEntry, 'id' | 'albumId'> & { album?: string };
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const extensionOf = (file: File) => {
+  const match = /\.([a-z0-9]+)$/i.exec(file.name);
+  return match ? match[1].toLowerCase() : 'bin';
+};
+
+/** SHA-256 of an entry's photo and depth map, which identifies it across libraries. */
+export async function hashEntry(entry: Pick<HistoryDbEntry, 'image' | 'depthMap'>): Promise<string> {
+  const [image, depthMap] = await Promise.all([entry.image.arrayBuffer(), entry.depthMap.arrayBuffer()]);
+  const bytes = new Uint8Array(image.byteLength + depthMap.byteLength);
+  bytes.set(new Uint8Array(image), 0);
+  bytes.set(new Uint8Array(depthMap), image.byteLength);
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+// Without ZIP64, sizes and offsets in a ZIP are 32-bit, which fflate does not go beyond.
+const MAX_ARCHIVE_SIZE = 0xffffffff;
+
+/** Feeds a file to `push` one chunk at a time, so it is never held in memory whole. */
+async function streamFile(file: Blob, push: (chunk: Uint8Array, final: boolean) => void) {
+  const reader = file.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    push(value, false);
+  }
+  push(new Uint8Array(0), true);
+}
+
+/**
+ * Packs history entries into a ZIP with a JSON manifest. Photos and PNGs are already compressed,
+ * so the files are stored as they are. Files are streamed in one at a time and the output is
+ * collected into a Blob, which the browser can keep on disk. `onProgress` receives the share of
+ * entries packed.
+ */
+export async function createLibraryArchive(
+  entries: HistoryDbEntry[],
+  albums: AlbumDbEntry[],
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const totalSize = entries.reduce((sum, entry) => sum + entry.image.size + entry.depthMap.size + (entry.mask?.size ?? 0), 0);
+  if (totalSize > MAX_ARCHIVE_SIZE) {
+    throw new Error('The library is larger than 4 GB, the most a single archive can hold. Prune or delete entries first.');
+  }
+
+  const chunks: Uint8Array[] = [];
+  let zipError: Error | null = null;
+  const zip = new Zip((error, chunk) => {
+    if (error) zipError = error;
+    else chunks.push(chunk);
+  });
+  const manifest: Manifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: [],
+  };
+
+  const addFile = async (folder: string, role: string, file: File): Promise<ArchiveFile> => {
+    const path = `${folder}/${role}.${extensionOf(file)}`;
+    const stream = new ZipPassThrough(path);
+    zip.add(stream);
+    await streamFile(file, (chunk, final) => stream.push(chunk, final));
+    if (zipError) throw zipError;
+    return { path, name: file.name, type: file.type };
+  };
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const folder = `entries/${String(i + 1).padStart(4, '0')}`;
+    const album = albums.find(album => album.id === entry.albumId);
+    manifest.entries.push({
+      createdAt: entry.createdAt,
+      settings: entry.settings,
+      ...(entry.title && { title: entry.title }),
+      ...(entry.tags.length > 0 && { tags: entry.tags }),
+      ...(album && { album: album.name }),
+      ...(entry.favorite && { favorite: true }),
+      ...(entry.source && { source: entry.source }),
+      image: await addFile(folder, 'image', entry.image),
+      depthMap: await addFile(folder, 'depth', entry.depthMap),
+      ...(entry.mask && { mask: await addFile(folder, 'mask', entry.mask) }),
+    });
+    onProgress?.((i + 1) / entries.length);
+  }
+
+  const manifestFile = new ZipPassThrough(MANIFEST_PATH);
+  zip.add(manifestFile);
+  manifestFile.push(strToU8(JSON.stringify(manifest, null, 2)), true);
+  zip.end();
+  if (zipError) throw zipError;
+  return new Blob(chunks, { type: 'application/zip' });
+}
+
+/** Unzips `archive` as a stream, collecting each file's chunks into a Blob. */
+async function unzipToBlobs(archive: Blob): Promise<Map<string, Blob>> {
+  const parts = new Map<string, Uint8Array[]>();
+  let unzipError: Error | null = null;
+  const unzip = new Unzip(file => {
+    const chunks: Uint8Array[] = [];
+    parts.set(file.name, chunks);
+    file.ondata = (error, chunk) => {
+      if (error) unzipError = error;
+      else chunks.push(chunk);
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+  await streamFile(archive, (chunk, final) => {
+    if (!unzipError) unzip.push(chunk, final);
+  });
+  if (unzipError) throw unzipError;
+  return new Map(Array.from(parts, ([name, chunks]) => [name, new Blob(chunks)]));
+}
+
+/** Unpacks an archive written by createLibraryArchive. */
+export async function readLibraryArchive(archive: File): Promise<ArchivedEntry[]> {
+  let files: Map<string, Blob>;
+  try {
+    files = await unzipToBlobs(archive);
+  } catch {
+    throw new Error('The file is not a ZIP archive.');
+  }
+
+  const manifestFile = files.get(MANIFEST_PATH);
+  let manifest: Partial<Manifest> | null = null;
+  try {
+    manifest = manifestFile ? (JSON.parse(await manifestFile.text()) as Partial<Manifest>) : null;
+  } catch {
+    // A damaged manifest is reported like a missing one.
+  }
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.entries)) {
+    throw new Error('The archive is not a DepthWeaver library.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+    throw new Error('The archive was written by a newer version of DepthWeaver.');
+  }
+  const { exportedAt } = manifest;
+
+  const readFile = ({ path, name, type }: ArchiveFile) => {
+    const blob = files.get(path);
+    if (!blob) {
+      throw new Error(`The archive is missing ${path}.`);
+    }
+    return new File([blob], name, { type });
+  };
+
+  return manifest.entries.map(entry => ({
+    createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : exportedAt ?? new Date().toISOString(),
+    settings: toStoredSceneSettings(parseSceneSettings(entry.settings)),
+    ...(typeof entry.title === 'string' && entry.title && { title: entry.title }),
+    tags: Array.isArray(entry.tags) ? parseTags(entry.tags.filter(tag => typeof tag === 'string').join(',')) : [],
+    ...(typeof entry.album === 'string' && entry.album && { album: entry.album }),
+    favorite: entry.favorite === true ? 1 : 0,
+    ...(depthSources.some(source => source.value === entry.source) && { source: entry.source }),
+    image: readFile(entry.image),
+    depthMap: readFile(entry.depthMap),
+    ...(entry.mask && { mask: readFile(entry.mask) }),
+  }));
+}
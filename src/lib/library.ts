@@ -0,0 +1,54 @@
+import type { HistoryDbEntry } from '@/lib/db';
+
+/** Where an entry's depth map came from. */
+export type DepthSource = 'upload' | 'embedded' | 'remote' | 'local' | 'stereo';
+
+export const depthSources: { value: DepthSource; label: string }[] = [
+  { value: 'upload', label: '上传的深度图' },
+  { value: 'embedded', label: '照片内嵌深度' },
+  { value: 'remote', label: '服务器生成' },
+  { value: 'local', label: '本地模型生成' },
+  { value: 'stereo', label: '立体匹配' },
+];
+
+/** Conditions for listing history; unset fields do not filter. Dates are inclusive ISO strings. */
+export interface HistoryFilter {
+  search?: string;
+  tag?: string;
+  albumId?: number;
+  favorite?: boolean;
+  source?: DepthSource;
+  from?: string;
+  to?: string;
+}
+
+const MAX_TAG_LENGTH = 24;
+const MAX_TAGS = 20;
+
+/** Splits user input on commas and whitespace into distinct tags. */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(/[,，\s]+/)
+    .map(tag => tag.trim().replace(/^#/, '').slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_TAGS);
+}
+
+export const isFilterActive = (filter: HistoryFilter) =>
+  Object.values(filter).some(value => value !== undefined && value !== '');
+
+/** Tests the conditions that the database index used for the query does not cover. */
+export function matchesHistoryFilter(entry: HistoryDbEntry, filter: HistoryFilter): boolean {
+  if (filter.tag && !entry.tags.includes(filter.tag)) return false;
+  if (filter.albumId !== undefined && entry.albumId !== filter.albumId) return false;
+  if (filter.favorite && !entry.favorite) return false;
+  if (filter.source && entry.source !== filter.source) return false;
+  if (filter.from && entry.createdAt < filter.from) return false;
+  if (filter.to && entry.createdAt > filter.to) return false;
+  const search = filter.search?.trim().toLowerCase();
+  if (search) {
+    const inTitle = entry.title?.toLowerCase().includes(search) ?? false;
+    if (!inTitle && !entry.tags.some(tag => tag.toLowerCase().includes(search))) return false;
+  }
+  return true;
+}
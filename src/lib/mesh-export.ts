@@ -0,0 +1,238 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { PLYExporter } from 'three/examples/jsm/exporters/PLYExporter.js';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { strToU8, zipSync } from 'fflate';
+import { canvasToBlob } from '@/lib/download';
+
+export type ExportFormat = 'glb' | 'obj' | 'ply' | 'stl';
+
+/** RGBA pixels as returned by `readRenderTargetPixels`, i.e. with the bottom row first. */
+export interface BakedPixels {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface ExportedFile {
+  blob: Blob;
+  fileName: string;
+}
+
+const STL_WIDTH_MM = 100;
+const STL_BASE_THICKNESS = 0.04;
+
+const createCanvas = ({ data, width, height }: BakedPixels, flipY: boolean) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get 2d context from canvas');
+  }
+  const pixels = new Uint8ClampedArray(data.length);
+  const rowSize = width * 4;
+  for (let y = 0; y < height; y++) {
+    const sourceRow = flipY ? height - 1 - y : y;
+    pixels.set(data.subarray(sourceRow * rowSize, (sourceRow + 1) * rowSize), y * rowSize);
+  }
+  context.putImageData(new ImageData(pixels, width, height), 0, 0);
+  return canvas;
+};
+
+const exportGlb = (geometry: THREE.BufferGeometry, pixels: BakedPixels, scale: THREE.Vector3, baseName: string) => {
+  // glTF puts the texture origin at the top-left, which matches the bottom-up readback as-is.
+  const canvasTexture = new THREE.CanvasTexture(createCanvas(pixels, false));
+  canvasTexture.flipY = false;
+  canvasTexture.needsUpdate = true;
+
+  const exportMaterial = new THREE.MeshBasicMaterial({ map: canvasTexture });
+  const exportMesh = new THREE.Mesh(geometry, exportMaterial);
+  exportMesh.scale.copy(scale);
+
+  return new Promise<ExportedFile>((resolve, reject) => {
+    new GLTFExporter().parse(
+      exportMesh,
+      (gltf: ArrayBuffer) => {
+        canvasTexture.dispose();
+        exportMaterial.dispose();
+        resolve({ blob: new Blob([gltf], { type: 'model/gltf-binary' }), fileName: `${baseName}.glb` });
+      },
+      (error: unknown) => {
+        console.error('An error happened during parsing', error);
+        canvasTexture.dispose();
+        exportMaterial.dispose();
+        reject(new Error('Failed to export GLB.'));
+      },
+      { binary: true }
+    );
+  });
+};
+
+const exportObj = async (geometry: THREE.BufferGeometry, pixels: BakedPixels, scale: THREE.Vector3, baseName: string): Promise<ExportedFile> => {
+  const material = new THREE.MeshBasicMaterial();
+  material.name = 'depthweaver';
+  const exportMesh = new THREE.Mesh(geometry, material);
+  exportMesh.scale.copy(scale);
+  exportMesh.updateMatrixWorld(true);
+
+  const obj = `mtllib ${baseName}.mtl\n` + new OBJExporter().parse(exportMesh);
+  const mtl = [
+    `newmtl ${material.name}`,
+    'Ka 1.000 1.000 1.000',
+    'Kd 1.000 1.000 1.000',
+    'Ks 0.000 0.000 0.000',
+    'd 1.0',
+    'illum 1',
+    `map_Kd ${baseName}.png`,
+    '',
+  ].join('\n');
+  material.dispose();
+
+  // OBJ texture coordinates start at the bottom-left, so the PNG is written top row first.
+  const png = await canvasToBlob(createCanvas(pixels, true));
+  const archive = zipSync({
+    [`${baseName}.obj`]: strToU8(obj),
+    [`${baseName}.mtl`]: strToU8(mtl),
+    [`${baseName}.png`]: [new Uint8Array(await png.arrayBuffer()), { level: 0 }],
+  });
+  return { blob: new Blob([archive], { type: 'application/zip' }), fileName: `${baseName}-obj.zip` };
+};
+
+const exportPly = (geometry: THREE.BufferGeometry, pixels: BakedPixels, scale: THREE.Vector3, baseName: string) => {
+  const position = geometry.getAttribute('position');
+  const uv = geometry.getAttribute('uv');
+  const colors = new Float32Array(position.count * 3);
+  const color = new THREE.Color();
+
+  for (let i = 0; i < position.count; i++) {
+    const x = Math.min(pixels.width - 1, Math.floor(uv.getX(i) * pixels.width));
+    const y = Math.min(pixels.height - 1, Math.floor(uv.getY(i) * pixels.height));
+    const index = (y * pixels.width + x) * 4;
+    // The exporter converts colours back to sRGB, so hand it linear values.
+    color.setRGB(pixels.data[index] / 255, pixels.data[index + 1] / 255, pixels.data[index + 2] / 255, THREE.SRGBColorSpace);
+    colors[i * 3] = color.r;
+    colors[i * 3 + 1] = color.g;
+    colors[i * 3 + 2] = color.b;
+  }
+
+  const pointGeometry = new THREE.BufferGeometry();
+  pointGeometry.setAttribute('position', position);
+  pointGeometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  const points = new THREE.Points(pointGeometry);
+  points.scale.copy(scale);
+  points.updateMatrixWorld(true);
+
+  return new Promise<ExportedFile>((resolve, reject) => {
+    new PLYExporter().parse(
+      points,
+      (result: ArrayBuffer | null) => {
+        pointGeometry.dispose();
+        if (!result) {
+          reject(new Error('Failed to export PLY.'));
+          return;
+        }
+        resolve({ blob: new Blob([result], { type: 'application/octet-stream' }), fileName: `${baseName}.ply` });
+      },
+      { binary: true, littleEndian: true }
+    );
+  });
+};
+
+/**
+ * Closes the displaced surface into a printable solid: a flat back plate sits `STL_BASE_THICKNESS`
+ * below the deepest point and walls are extruded down from every boundary edge.
+ */
+const buildReliefSolid = (geometry: THREE.BufferGeometry) => {
+  const position = geometry.getAttribute('position');
+  const index = geometry.getIndex();
+  const triangleCount = index ? index.count / 3 : position.count / 3;
+  const vertexAt = (i: number) => (index ? index.getX(i) : i);
+
+  let minZ = Infinity;
+  let centerX = 0;
+  let centerY = 0;
+  for (let i = 0; i < position.count; i++) {
+    minZ = Math.min(minZ, position.getZ(i));
+    centerX += position.getX(i) / position.count;
+    centerY += position.getY(i) / position.count;
+  }
+  const baseZ = minZ - STL_BASE_THICKNESS;
+
+  // Directed edges seen exactly once are on the boundary; their direction keeps the surface winding.
+  const edges = new Map<number, [number, number]>();
+  for (let t = 0; t < triangleCount; t++) {
+    for (let k = 0; k < 3; k++) {
+      const a = vertexAt(t * 3 + k);
+      const b = vertexAt(t * 3 + (k + 1) % 3);
+      const key = a < b ? a * position.count + b : b * position.count + a;
+      if (edges.has(key)) {
+        edges.delete(key);
+      } else {
+        edges.set(key, [a, b]);
+      }
+    }
+  }
+
+  const output = new Float32Array((triangleCount + edges.size * 3) * 9);
+  let offset = 0;
+  const push = (x: number, y: number, z: number) => {
+    output[offset++] = x;
+    output[offset++] = y;
+    output[offset++] = z;
+  };
+  const pushTop = (i: number) => push(position.getX(i), position.getY(i), position.getZ(i));
+  const pushBase = (i: number) => push(position.getX(i), position.getY(i), baseZ);
+
+  for (let t = 0; t < triangleCount; t++) {
+    pushTop(vertexAt(t * 3));
+    pushTop(vertexAt(t * 3 + 1));
+    pushTop(vertexAt(t * 3 + 2));
+  }
+  edges.forEach(([a, b]) => {
+    pushBase(a); pushBase(b); pushTop(b);
+    pushBase(a); pushTop(b); pushTop(a);
+    push(centerX, centerY, baseZ); pushBase(b); pushBase(a);
+  });
+
+  const solid = new THREE.BufferGeometry();
+  solid.setAttribute('position', new THREE.BufferAttribute(output, 3));
+  return solid;
+};
+
+const exportStl = (geometry: THREE.BufferGeometry, scale: THREE.Vector3, baseName: string): ExportedFile => {
+  const solid = buildReliefSolid(geometry);
+  const mesh = new THREE.Mesh(solid);
+  // Slicers read STL units as millimetres, so size the print to a sensible default width.
+  mesh.scale.copy(scale).multiplyScalar(STL_WIDTH_MM / (2 * scale.x));
+  mesh.updateMatrixWorld(true);
+  const data: ArrayBuffer = new STLExporter().parse(mesh, { binary: true }).buffer;
+  solid.dispose();
+  return { blob: new Blob([data], { type: 'model/stl' }), fileName: `${baseName}.stl` };
+};
+
+/**
+ * Serialises an already displaced mesh geometry. `pixels` is the baked colour texture read back from
+ * the GPU; `scale` is the aspect-ratio scale of the live mesh.
+ */
+export async function exportMesh(
+  format: ExportFormat,
+  geometry: THREE.BufferGeometry,
+  pixels: BakedPixels,
+  scale: THREE.Vector3,
+  baseName: string
+): Promise<ExportedFile> {
+  switch (format) {
+    case 'glb':
+      return exportGlb(geometry, pixels, scale, baseName);
+    case 'obj':
+      return exportObj(geometry, pixels, scale, baseName);
+    case 'ply':
+      return exportPly(geometry, pixels, scale, baseName);
+    case 'stl':
+      return exportStl(geometry, scale, baseName);
+    default:
+      throw new Error('Export format is not supported.');
+  }
+}
@@ -0,0 +1,173 @@
+import { createSegment, findInsertOffset, insertSegments } from '@/lib/jpeg';
+
+// Writes and reads Multi-Picture Object files (CIPA DC-007) holding a left/right stereo pair, the
+// format used by stereo cameras and 3D displays.
+
+const MP_TYPE_DISPARITY = 0x020002;
+const MP_TYPE_MULTI_ANGLE = 0x020003;
+const MP_TYPE_MASK = 0xffffff;
+const MP_REPRESENTATIVE_IMAGE = 0x20000000;
+
+const TAG_MP_VERSION = 0xb000;
+const TAG_NUMBER_OF_IMAGES = 0xb001;
+const TAG_MP_ENTRY = 0xb002;
+const TAG_INDIVIDUAL_NUM = 0xb101;
+const TAG_BASE_VIEWPOINT_NUM = 0xb204;
+
+const TYPE_LONG = 4;
+const TYPE_UNDEFINED = 7;
+
+const MPF_IDENTIFIER = [0x4d, 0x50, 0x46, 0x00]; // "MPF\0"
+const MP_VERSION = [0x30, 0x31, 0x30, 0x30]; // "0100"
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  /** Inline value for LONG entries, or the bytes stored after the IFD for larger UNDEFINED values. */
+  value: number | number[];
+}
+
+/** Serialises a chain of big-endian TIFF IFDs the way the MP extension lays them out. */
+const writeMpHeader = (ifds: IfdEntry[][]) => {
+  const ifdSize = (entries: IfdEntry[]) => 2 + entries.length * 12 + 4;
+  const extraSize = (entries: IfdEntry[]) =>
+    entries.reduce((sum, entry) => sum + (Array.isArray(entry.value) && entry.value.length > 4 ? entry.value.length : 0), 0);
+
+  const totalSize = 8 + ifds.reduce((sum, entries) => sum + ifdSize(entries) + extraSize(entries), 0);
+  const bytes = new Uint8Array(totalSize);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint16(0, 0x4d4d); // "MM", big-endian
+  view.setUint16(2, 0x002a);
+  view.setUint32(4, 8);
+
+  let offset = 8;
+  ifds.forEach((entries, ifdIndex) => {
+    let extraOffset = offset + ifdSize(entries);
+    view.setUint16(offset, entries.length);
+    entries.forEach((entry, i) => {
+      const position = offset + 2 + i * 12;
+      view.setUint16(position, entry.tag);
+      view.setUint16(position + 2, entry.type);
+      view.setUint32(position + 4, entry.count);
+      if (Array.isArray(entry.value)) {
+        if (entry.value.length > 4) {
+          view.setUint32(position + 8, extraOffset);
+          bytes.set(entry.value, extraOffset);
+          extraOffset += entry.value.length;
+        } else {
+          bytes.set(entry.value, position + 8);
+        }
+      } else {
+        view.setUint32(position + 8, entry.value);
+      }
+    });
+    const nextIfd = ifdIndex < ifds.length - 1 ? extraOffset : 0;
+    view.setUint32(offset + 2 + entries.length * 12, nextIfd);
+    offset = extraOffset;
+  });
+
+  return bytes;
+};
+
+const createApp2Segment = (mpHeader: Uint8Array) => {
+  const payload = new Uint8Array(MPF_IDENTIFIER.length + mpHeader.length);
+  payload.set(MPF_IDENTIFIER, 0);
+  payload.set(mpHeader, MPF_IDENTIFIER.length);
+  return createSegment(0xe2, payload);
+};
+
+const attributeIfd = (individualNum: number): IfdEntry[] => [
+  { tag: TAG_MP_VERSION, type: TYPE_UNDEFINED, count: 4, value: MP_VERSION },
+  { tag: TAG_INDIVIDUAL_NUM, type: TYPE_LONG, count: 1, value: individualNum },
+  { tag: TAG_BASE_VIEWPOINT_NUM, type: TYPE_LONG, count: 1, value: 1 },
+];
+
+/**
+ * Combines two baseline JPEGs into a two-view MPO. The left view comes first and is marked as the
+ * representative image, so viewers without MPO support simply show it as a normal JPEG.
+ */
+export function createMpo(left: Uint8Array, right: Uint8Array): Blob {
+  const buildEntries = (leftSize: number, rightSize: number, rightOffset: number) => {
+    const entries = new Uint8Array(32);
+    const view = new DataView(entries.buffer);
+    view.setUint32(0, MP_REPRESENTATIVE_IMAGE | MP_TYPE_DISPARITY);
+    view.setUint32(4, leftSize);
+    view.setUint32(8, 0);
+    view.setUint32(16, MP_TYPE_DISPARITY);
+    view.setUint32(20, rightSize);
+    view.setUint32(24, rightOffset);
+    return Array.from(entries);
+  };
+  const buildIndexHeader = (entries: number[]) => writeMpHeader([
+    [
+      { tag: TAG_MP_VERSION, type: TYPE_UNDEFINED, count: 4, value: MP_VERSION },
+      { tag: TAG_NUMBER_OF_IMAGES, type: TYPE_LONG, count: 1, value: 2 },
+      { tag: TAG_MP_ENTRY, type: TYPE_UNDEFINED, count: entries.length, value: entries },
+    ],
+    attributeIfd(1),
+  ]);
+
+  const rightImage = insertSegments(right, [createApp2Segment(writeMpHeader([attributeIfd(2)]))]);
+
+  // The segment size does not depend on the entry values, so lay it out once to learn the offsets.
+  const leftSegmentSize = createApp2Segment(buildIndexHeader(buildEntries(0, 0, 0))).length;
+  const leftSize = left.length + leftSegmentSize;
+  // Offsets are measured from the MP header, which starts after the APP2 marker, length and identifier.
+  const mpHeaderOffset = findInsertOffset(left) + 8;
+  const leftImage = insertSegments(left, [createApp2Segment(buildIndexHeader(buildEntries(leftSize, rightImage.length, leftSize - mpHeaderOffset)))]);
+
+  return new Blob([leftImage, rightImage], { type: 'image/mpo' });
+}
+
+const readMpIndex = (bytes: Uint8Array, headerOffset: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  const littleEndian = view.getUint16(headerOffset) === 0x4949;
+  const ifdOffset = headerOffset + view.getUint32(headerOffset + 4, littleEndian);
+  const entryCount = view.getUint16(ifdOffset, littleEndian);
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifdOffset + 2 + i * 12;
+    if (view.getUint16(entry, littleEndian) !== TAG_MP_ENTRY) continue;
+
+    const count = view.getUint32(entry + 4, littleEndian);
+    const entriesOffset = headerOffset + view.getUint32(entry + 8, littleEndian);
+    const images: { type: number; data: Uint8Array }[] = [];
+    for (let j = 0; j + 16 <= count; j += 16) {
+      const type = view.getUint32(entriesOffset + j, littleEndian) & MP_TYPE_MASK;
+      const size = view.getUint32(entriesOffset + j + 4, littleEndian);
+      // The first image starts at the beginning of the file; the others are relative to the MP header.
+      const start = j === 0 ? 0 : headerOffset + view.getUint32(entriesOffset + j + 8, littleEndian);
+      if (start + size > bytes.length) break;
+      images.push({ type, data: bytes.subarray(start, start + size) });
+    }
+    return images;
+  }
+  return [];
+};
+
+const isView = (type: number) => type === MP_TYPE_DISPARITY || type === MP_TYPE_MULTI_ANGLE;
+
+/**
+ * Returns the views of a stereo or multi-view Multi-Picture Object in MP entry order. The list is
+ * empty when `bytes` is a JPEG without an MP index, or when any of its images is something else,
+ * such as the large thumbnails cameras add or the gain map of an Ultra HDR photo.
+ */
+export function readMpoViews(bytes: Uint8Array): Uint8Array[] {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return [];
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const isMpf = marker === 0xe2 && MPF_IDENTIFIER.every((byte, i) => bytes[offset + 4 + i] === byte);
+    if (isMpf) {
+      const images = readMpIndex(bytes, offset + 8);
+      return images.length >= 2 && images.every(image => isView(image.type)) ? images.map(image => image.data) : [];
+    }
+    offset += 2 + length;
+  }
+  return [];
+}
@@ -0,0 +1,87 @@
+import { DEFAULT_SCENE_SETTINGS, parseSceneSettings, type SceneSettings } from '@/lib/scene-settings';
+
+/** The part of the scene settings that makes up a reusable look, independent of the photo. */
+export type PresetSettings = Pick<
+  SceneSettings,
+  | 'depthMultiplier'
+  | 'viewAngleLimit'
+  | 'renderMode'
+  | 'blurIntensity'
+  | 'blurOffset'
+  | 'selectionRange'
+  | 'cameraType'
+  | 'backgroundMode'
+  | 'backgroundColor'
+>;
+
+export interface ScenePreset {
+  name: string;
+  settings: PresetSettings;
+}
+
+const PRESET_KEYS: (keyof PresetSettings)[] = [
+  'depthMultiplier',
+  'viewAngleLimit',
+  'renderMode',
+  'blurIntensity',
+  'blurOffset',
+  'selectionRange',
+  'cameraType',
+  'backgroundMode',
+  'backgroundColor',
+];
+
+// Identifies preset files written by this app; `version` is the layout of the file.
+const PRESET_FILE_FORMAT = 'depthweaver-presets';
+const PRESET_FILE_VERSION = 1;
+const MAX_PRESET_NAME_LENGTH = 40;
+
+export const pickPresetSettings = (settings: SceneSettings): PresetSettings =>
+  Object.fromEntries(PRESET_KEYS.map(key => [key, settings[key]])) as PresetSettings;
+
+const builtInPreset = (name: string, settings: Partial<PresetSettings>): ScenePreset => ({
+  name,
+  settings: { ...pickPresetSettings(DEFAULT_SCENE_SETTINGS), ...settings },
+});
+
+export const builtInPresets: ScenePreset[] = [
+  builtInPreset('轻微', { depthMultiplier: 0.4, viewAngleLimit: 6, blurIntensity: 3 }),
+  builtInPreset('夸张', { depthMultiplier: 1.2, viewAngleLimit: 18, renderMode: 'fill', selectionRange: 14 }),
+  builtInPreset('微距', { depthMultiplier: 1, viewAngleLimit: 8, blurIntensity: 7, blurOffset: 0.5, cameraType: 'orthographic' }),
+  builtInPreset('风景', { depthMultiplier: 0.5, viewAngleLimit: 14, renderMode: 'fill', selectionRange: 8 }),
+];
+
+/** Checks a preset read from a file or the database, filling missing settings with the defaults. */
+export function parsePreset(value: unknown): ScenePreset | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { name, settings } = value as { name?: unknown; settings?: unknown };
+  if (typeof name !== 'string' || !name.trim()) return null;
+  return {
+    name: name.trim().slice(0, MAX_PRESET_NAME_LENGTH),
+    settings: pickPresetSettings(parseSceneSettings(settings)),
+  };
+}
+
+export function createPresetFile(presets: ScenePreset[]): Blob {
+  const file = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, settings }) => ({ name, settings })),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+/** Reads presets exported by createPresetFile. Presets that fail to parse are skipped. */
+export async function readPresetFile(file: File): Promise<ScenePreset[]> {
+  let content: unknown;
+  try {
+    content = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const { format, presets } = (content ?? {}) as { format?: unknown; presets?: unknown };
+  if (format !== PRESET_FILE_FORMAT || !Array.isArray(presets)) {
+    throw new Error('The file does not contain DepthWeaver presets.');
+  }
+  return presets.map(parsePreset).filter((preset): preset is ScenePreset => preset !== null);
+}
@@ -0,0 +1,64 @@
+import * as THREE from 'three';
+import type { SceneCamera } from '@/lib/camera';
+
+export interface QuiltOptions {
+  /** Number of rendered views; at most `columns * rows`. */
+  views: number;
+  columns: number;
+  rows: number;
+  /** Horizontal angle covered by the views, in degrees. */
+  viewCone: number;
+  /** Size of the whole quilt image in pixels. */
+  width: number;
+  height: number;
+}
+
+export const quiltPresets: { value: string; label: string; options: QuiltOptions }[] = [
+  { value: 'portrait', label: 'Looking Glass Portrait', options: { views: 48, columns: 8, rows: 6, viewCone: 40, width: 3360, height: 3360 } },
+  { value: 'go', label: 'Looking Glass Go', options: { views: 66, columns: 11, rows: 6, viewCone: 40, width: 4092, height: 4092 } },
+  { value: 'landscape', label: 'Looking Glass 16" 横屏', options: { views: 45, columns: 5, rows: 9, viewCone: 40, width: 4096, height: 4096 } },
+];
+
+export const DEFAULT_QUILT_OPTIONS: QuiltOptions = quiltPresets[0].options;
+
+export const getQuiltTileSize = (options: QuiltOptions) => ({
+  width: Math.floor(options.width / options.columns),
+  height: Math.floor(options.height / options.rows),
+});
+
+/** Appends the `_qs{columns}x{rows}a{aspect}` suffix light-field players use to detect the layout. */
+export function getQuiltFileName(baseName: string, options: QuiltOptions) {
+  const tile = getQuiltTileSize(options);
+  const aspect = Number((tile.width / tile.height).toFixed(4));
+  return `${baseName}_qs${options.columns}x${options.rows}a${aspect}.png`;
+}
+
+/**
+ * Returns where view `index` goes in the quilt, in canvas pixels. Views run left to right and
+ * bottom to top, starting with the leftmost camera in the bottom-left tile.
+ */
+export function getQuiltTileRect(index: number, options: QuiltOptions) {
+  const tile = getQuiltTileSize(options);
+  const column = index % options.columns;
+  const row = Math.floor(index / options.columns);
+  return {
+    x: column * tile.width,
+    y: (options.rows - 1 - row) * tile.height,
+    width: tile.width,
+    height: tile.height,
+  };
+}
+
+const yAxis = new THREE.Vector3(0, 1, 0);
+const origin = new THREE.Vector3();
+
+/** Orbits a copy of `camera` around the image centre to the angle of view `index`. */
+export function getQuiltViewCamera(camera: SceneCamera, index: number, options: QuiltOptions): SceneCamera {
+  const viewCamera = camera.clone();
+  const progress = options.views > 1 ? index / (options.views - 1) : 0.5;
+  const angle = THREE.MathUtils.degToRad((progress - 0.5) * options.viewCone);
+  viewCamera.position.applyAxisAngle(yAxis, angle);
+  viewCamera.lookAt(origin);
+  viewCamera.updateMatrixWorld();
+  return viewCamera;
+}
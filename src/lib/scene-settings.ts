@@ -0,0 +1,104 @@
+import { DEFAULT_STEREO_OPTIONS, stereoModes, type StereoOptions } from '@/lib/stereo';
+
+export type RenderMode = 'blur' | 'fill';
+export type CameraType = 'perspective' | 'orthographic';
+export type BackgroundMode = 'blur' | 'solid';
+
+/** The viewer's tuning for one scene, saved with its history entry. */
+export interface SceneSettings {
+  depthMultiplier: number;
+  cameraType: CameraType;
+  cameraDistance: number;
+  orthographicZoom: number;
+  meshDetail: number;
+  adaptiveMesh: boolean;
+  triangleBudget: number;
+  layeredMesh: boolean;
+  popOut: boolean;
+  renderMode: RenderMode;
+  selectionRange: number;
+  blurIntensity: number;
+  blurOffset: number;
+  viewAngleLimit: number;
+  backgroundMode: BackgroundMode;
+  backgroundColor: string;
+  stereo: StereoOptions;
+}
+
+/** Settings as stored in IndexedDB, tagged with the layout version they were written in. */
+export interface StoredSceneSettings extends SceneSettings {
+  version: number;
+}
+
+// Bump when a field changes meaning, and convert older objects in parseSceneSettings.
+export const SCENE_SETTINGS_VERSION = 1;
+
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  depthMultiplier: 0.7,
+  cameraType: 'perspective',
+  cameraDistance: 2,
+  orthographicZoom: 1,
+  meshDetail: 1024,
+  adaptiveMesh: false,
+  triangleBudget: 200000,
+  layeredMesh: false,
+  popOut: false,
+  renderMode: 'blur',
+  selectionRange: 10,
+  blurIntensity: 5,
+  blurOffset: 1,
+  viewAngleLimit: 10,
+  backgroundMode: 'blur',
+  backgroundColor: '#000000',
+  stereo: DEFAULT_STEREO_OPTIONS,
+};
+
+export const toStoredSceneSettings = (settings: SceneSettings): StoredSceneSettings => ({
+  ...settings,
+  stereo: { ...settings.stereo },
+  version: SCENE_SETTINGS_VERSION,
+});
+
+const pickNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+const pickBoolean = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+
+const pickOption = <T extends string>(value: unknown, options: readonly T[], fallback: T) =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+/**
+ * Reads settings saved by any version of the app. Missing or malformed fields fall back to the
+ * defaults, so entries saved before a field existed open the way they used to.
+ */
+export function parseSceneSettings(stored: unknown): SceneSettings {
+  if (typeof stored !== 'object' || stored === null) return DEFAULT_SCENE_SETTINGS;
+  const value = stored as Partial<Record<keyof SceneSettings, unknown>>;
+  const defaults = DEFAULT_SCENE_SETTINGS;
+  const stereo = (typeof value.stereo === 'object' && value.stereo !== null ? value.stereo : {}) as Partial<Record<keyof StereoOptions, unknown>>;
+  return {
+    depthMultiplier: pickNumber(value.depthMultiplier, defaults.depthMultiplier),
+    cameraType: pickOption(value.cameraType, ['perspective', 'orthographic'], defaults.cameraType),
+    cameraDistance: pickNumber(value.cameraDistance, defaults.cameraDistance),
+    orthographicZoom: pickNumber(value.orthographicZoom, defaults.orthographicZoom),
+    meshDetail: pickNumber(value.meshDetail, defaults.meshDetail),
+    adaptiveMesh: pickBoolean(value.adaptiveMesh, defaults.adaptiveMesh),
+    triangleBudget: pickNumber(value.triangleBudget, defaults.triangleBudget),
+    layeredMesh: pickBoolean(value.layeredMesh, defaults.layeredMesh),
+    popOut: pickBoolean(value.popOut, defaults.popOut),
+    renderMode: pickOption(value.renderMode, ['blur', 'fill'], defaults.renderMode),
+    selectionRange: pickNumber(value.selectionRange, defaults.selectionRange),
+    blurIntensity: pickNumber(value.blurIntensity, defaults.blurIntensity),
+    blurOffset: pickNumber(value.blurOffset, defaults.blurOffset),
+    viewAngleLimit: pickNumber(value.viewAngleLimit, defaults.viewAngleLimit),
+    backgroundMode: pickOption(value.backgroundMode, ['blur', 'solid'], defaults.backgroundMode),
+    backgroundColor: typeof value.backgroundColor === 'string' && /^#[0-9a-f]{6}$/i.test(value.backgroundColor)
+      ? value.backgroundColor
+      : defaults.backgroundColor,
+    stereo: {
+      mode: pickOption(stereo.mode, stereoModes.map(mode => mode.value), defaults.stereo.mode),
+      interaxial: pickNumber(stereo.interaxial, defaults.stereo.interaxial),
+      convergence: pickNumber(stereo.convergence, defaults.stereo.convergence),
+    },
+  };
+}
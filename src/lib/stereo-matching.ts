@@ -0,0 +1,240 @@
+// Dense stereo matching for rectified image pairs. Costs are Hamming distances between census
+// transforms, which tolerate the exposure and white balance differences between two camera
+// modules, aggregated over a square window and checked for left-right consistency.
+
+export interface StereoImage {
+  /** RGBA pixels, as in `ImageData`. */
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface StereoMatchOptions {
+  /** Disparity search range in pixels; a pixel at x in the left view is matched at x - d in the right. */
+  minDisparity: number;
+  maxDisparity: number;
+  /** Radius of the square cost aggregation window. */
+  windowRadius: number;
+  /** How much better, in percent, the best match must be than any non-adjacent one. */
+  uniquenessRatio: number;
+}
+
+const CENSUS_RADIUS = 2;
+const CENSUS_BITS = (2 * CENSUS_RADIUS + 1) ** 2 - 1;
+
+/** Returns matching options scaled to an image `width` pixels wide. */
+export const getDefaultMatchOptions = (width: number): StereoMatchOptions => {
+  // Aligned pairs such as MPO files from stereo cameras place the convergence point inside the
+  // scene, so disparities can be negative as well as positive.
+  const range = Math.max(8, Math.round(width * 0.1));
+  return { minDisparity: -range, maxDisparity: range, windowRadius: 4, uniquenessRatio: 10 };
+};
+
+const toGray = ({ data, width, height }: StereoImage) => {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+  }
+  return gray;
+};
+
+const censusTransform = (gray: Uint8Array, width: number, height: number) => {
+  const census = new Uint32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const center = gray[y * width + x];
+      let code = 0;
+      for (let dy = -CENSUS_RADIUS; dy <= CENSUS_RADIUS; dy++) {
+        const row = Math.min(height - 1, Math.max(0, y + dy)) * width;
+        for (let dx = -CENSUS_RADIUS; dx <= CENSUS_RADIUS; dx++) {
+          if (dx === 0 && dy === 0) continue;
+          const column = Math.min(width - 1, Math.max(0, x + dx));
+          code = (code << 1) | (gray[row + column] < center ? 1 : 0);
+        }
+      }
+      census[y * width + x] = code >>> 0;
+    }
+  }
+  return census;
+};
+
+const popCount = (value: number) => {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+/** Sums `values` over a (2r + 1)² window in place; windows are clipped at the image edges. */
+const boxFilter = (values: Int32Array, width: number, height: number, radius: number, scratch: Int32Array) => {
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) sum += values[row + x];
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width) sum += values[row + x + radius];
+      if (x - radius - 1 >= 0) sum -= values[row + x - radius - 1];
+      scratch[row + x] = sum;
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = 0; y < Math.min(radius, height); y++) sum += scratch[y * width + x];
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) sum += scratch[(y + radius) * width + x];
+      if (y - radius - 1 >= 0) sum -= scratch[(y - radius - 1) * width + x];
+      values[y * width + x] = sum;
+    }
+  }
+};
+
+/** Replaces invalid pixels on each row with the farther of the nearest valid disparities. */
+const fillInvalid = (disparity: Float32Array, width: number, height: number) => {
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let x = 0;
+    while (x < width) {
+      if (!Number.isNaN(disparity[row + x])) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < width && Number.isNaN(disparity[row + x])) x++;
+      const before = start > 0 ? disparity[row + start - 1] : NaN;
+      const after = x < width ? disparity[row + x] : NaN;
+      // Occluded pixels belong to the background, which has the smaller disparity.
+      const fill = Number.isNaN(before) ? after : Number.isNaN(after) ? before : Math.min(before, after);
+      disparity.fill(fill, row + start, row + x);
+    }
+  }
+};
+
+const medianFilter = (disparity: Float32Array, width: number, height: number) => {
+  const output = new Float32Array(disparity.length);
+  const window = new Float32Array(9);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const row = Math.min(height - 1, Math.max(0, y + dy)) * width;
+        for (let dx = -1; dx <= 1; dx++) {
+          window[count++] = disparity[row + Math.min(width - 1, Math.max(0, x + dx))];
+        }
+      }
+      output[y * width + x] = window.sort()[4];
+    }
+  }
+  return output;
+};
+
+/**
+ * Computes a dense disparity map for the left view of a rectified pair; larger values are nearer.
+ * Pixels that fail the uniqueness or left-right check are filled from their row neighbours, and
+ * the map is NaN everywhere only when no pixel could be matched at all.
+ */
+export function computeDisparity(left: StereoImage, right: StereoImage, options: StereoMatchOptions, onProgress?: (progress: number) => void) {
+  const { width, height } = left;
+  if (right.width !== width || right.height !== height) {
+    throw new Error('Stereo views must have the same size.');
+  }
+  const size = width * height;
+  const censusLeft = censusTransform(toGray(left), width, height);
+  const censusRight = censusTransform(toGray(right), width, height);
+
+  const bestCost = new Int32Array(size).fill(0x7fffffff);
+  const secondCost = new Int32Array(size).fill(0x7fffffff);
+  const bestDisparity = new Int32Array(size);
+  const costBefore = new Int32Array(size);
+  const costAfter = new Int32Array(size);
+  // The right view's best match is collected from the same costs: left pixel x at disparity d
+  // is right pixel x - d.
+  const rightCost = new Int32Array(size).fill(0x7fffffff);
+  const rightDisparity = new Int32Array(size);
+
+  let cost = new Int32Array(size);
+  let previousCost = new Int32Array(size);
+  const scratch = new Int32Array(size);
+  const { minDisparity, maxDisparity } = options;
+
+  for (let d = minDisparity; d <= maxDisparity; d++) {
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      for (let x = 0; x < width; x++) {
+        const xr = x - d;
+        cost[row + x] = xr >= 0 && xr < width ? popCount(censusLeft[row + x] ^ censusRight[row + xr]) : CENSUS_BITS;
+      }
+    }
+    boxFilter(cost, width, height, options.windowRadius, scratch);
+
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      for (let x = 0; x < width; x++) {
+        const i = row + x;
+        const c = cost[i];
+        if (bestDisparity[i] === d - 1 && d > minDisparity) {
+          costAfter[i] = c;
+        }
+        if (c < bestCost[i]) {
+          // The previous best only counts against uniqueness when it is not a direct neighbour.
+          if (bestDisparity[i] < d - 1 && d > minDisparity) {
+            secondCost[i] = Math.min(secondCost[i], bestCost[i]);
+          }
+          bestCost[i] = c;
+          bestDisparity[i] = d;
+          costBefore[i] = d > minDisparity ? previousCost[i] : c;
+          costAfter[i] = c;
+        } else if (d > bestDisparity[i] + 1) {
+          secondCost[i] = Math.min(secondCost[i], c);
+        }
+
+        const xr = x - d;
+        if (xr >= 0 && xr < width && c < rightCost[row + xr]) {
+          rightCost[row + xr] = c;
+          rightDisparity[row + xr] = d;
+        }
+      }
+    }
+
+    [cost, previousCost] = [previousCost, cost];
+    onProgress?.((d - minDisparity + 1) / (maxDisparity - minDisparity + 1));
+  }
+
+  const disparity = new Float32Array(size);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      const i = row + x;
+      const d = bestDisparity[i];
+      const xr = x - d;
+      const unique = secondCost[i] * 100 >= bestCost[i] * (100 + options.uniquenessRatio);
+      const consistent = xr >= 0 && xr < width && Math.abs(rightDisparity[row + xr] - d) <= 1;
+      if (!unique || !consistent) {
+        disparity[i] = NaN;
+        continue;
+      }
+      // Fit a parabola through the neighbouring costs for sub-pixel precision.
+      const denominator = costBefore[i] - 2 * bestCost[i] + costAfter[i];
+      disparity[i] = denominator > 0 ? d + (costBefore[i] - costAfter[i]) / (2 * denominator) : d;
+    }
+  }
+
+  fillInvalid(disparity, width, height);
+  return medianFilter(disparity, width, height);
+}
+
+/**
+ * Maps disparities to the scene's depth convention, stretching the 1st to 99th percentile over the
+ * 0 to 1 range so a few mismatches do not flatten the result.
+ */
+export function normalizeDisparity(disparity: Float32Array) {
+  const valid = disparity.filter(value => !Number.isNaN(value)).sort();
+  const normalized = new Float32Array(disparity.length);
+  const low = valid.length ? valid[Math.floor((valid.length - 1) * 0.01)] : 0;
+  const high = valid.length ? valid[Math.floor((valid.length - 1) * 0.99)] : 0;
+  const range = high - low;
+
+  for (let i = 0; i < disparity.length; i++) {
+    const value = Number.isNaN(disparity[i]) || range <= 0 ? 0 : (disparity[i] - low) / range;
+    normalized[i] = Math.min(1, Math.max(0, value));
+  }
+  return normalized;
+}
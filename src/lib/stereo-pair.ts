@@ -0,0 +1,87 @@
+import { canvasToBlob } from '@/lib/download';
+import { readMpoViews } from '@/lib/mpo';
+
+/** How the two views of a stereo photo are packed into a single image. */
+export type StereoPairLayout = 'none' | 'sbs-parallel' | 'sbs-cross';
+
+export const stereoPairLayouts: { value: StereoPairLayout; label: string }[] = [
+  { value: 'none', label: '普通照片' },
+  { value: 'sbs-parallel', label: '左右并排 (平行)' },
+  { value: 'sbs-cross', label: '左右并排 (交叉)' },
+];
+
+export interface StereoPair {
+  left: File;
+  right: File;
+}
+
+// Matching cost grows with the pixel count times the disparity range, which scales with the width,
+// so the views are matched at a reduced size.
+const MATCH_MAX_WIDTH = 640;
+const VIEW_JPEG_QUALITY = 0.95;
+
+const cropHalf = async (bitmap: ImageBitmap, half: 0 | 1, type: string) => {
+  const width = Math.floor(bitmap.width / 2);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = bitmap.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get 2d context from canvas');
+  }
+  context.drawImage(bitmap, half * width, 0, width, bitmap.height, 0, 0, width, bitmap.height);
+  return canvasToBlob(canvas, type, VIEW_JPEG_QUALITY);
+};
+
+/**
+ * Splits a stereo photo into its left and right views. MPO files holding stereo views are always
+ * split; other images only when `layout` says they hold two views side by side. Returns null for a
+ * single view.
+ */
+export async function splitStereoPair(file: File, layout: StereoPairLayout): Promise<StereoPair | null> {
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const toFile = (data: BlobPart, eye: 'left' | 'right', type: string) =>
+    new File([data], `${baseName}-${eye}.${type === 'image/png' ? 'png' : 'jpg'}`, { type });
+
+  const images = readMpoViews(new Uint8Array(await file.arrayBuffer()));
+  if (images.length >= 2) {
+    return { left: toFile(images[0], 'left', 'image/jpeg'), right: toFile(images[1], 'right', 'image/jpeg') };
+  }
+  if (layout === 'none') return null;
+
+  const bitmap = await createImageBitmap(file);
+  try {
+    const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    // Cross-eyed pairs put the right eye's view on the left.
+    const [first, second] = await Promise.all([cropHalf(bitmap, 0, type), cropHalf(bitmap, 1, type)]);
+    const [left, right] = layout === 'sbs-cross' ? [second, first] : [first, second];
+    return { left: toFile(left, 'left', type), right: toFile(right, 'right', type) };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** Decodes both views at the size used for stereo matching. */
+export async function loadMatchingViews(pair: StereoPair): Promise<[ImageData, ImageData]> {
+  const bitmaps = await Promise.all([createImageBitmap(pair.left), createImageBitmap(pair.right)]);
+  try {
+    const scale = Math.min(1, MATCH_MAX_WIDTH / bitmaps[0].width);
+    const width = Math.max(1, Math.round(bitmaps[0].width * scale));
+    const height = Math.max(1, Math.round(bitmaps[0].height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      throw new Error('Failed to get 2d context from canvas');
+    }
+    const [left, right] = bitmaps.map(bitmap => {
+      context.clearRect(0, 0, width, height);
+      context.drawImage(bitmap, 0, 0, width, height);
+      return context.getImageData(0, 0, width, height);
+    });
+    return [left, right];
+  } finally {
+    bitmaps.forEach(bitmap => bitmap.close());
+  }
+}
@@ -0,0 +1,211 @@
+import * as THREE from 'three';
+import { updateCameraAspect, type SceneCamera } from '@/lib/camera';
+
+export type StereoMode = 'off' | 'sbs-parallel' | 'sbs-cross' | 'top-bottom' | 'anaglyph';
+export type StereoEye = 'left' | 'right';
+/** `'jpeg'` is a single side-by-side JPEG with the left eye on the left. */
+export type StereoExportFormat = 'jpeg' | 'mpo';
+
+export interface StereoOptions {
+  mode: StereoMode;
+  /** Distance between the two eye cameras in scene units; the image is 2 units tall. */
+  interaxial: number;
+  /** Offset of the zero-parallax plane from the image plane. Positive values move it towards the viewer. */
+  convergence: number;
+}
+
+export const stereoModes: { value: StereoMode; label: string }[] = [
+  { value: 'off', label: '关闭' },
+  { value: 'sbs-parallel', label: '左右 (平行)' },
+  { value: 'sbs-cross', label: '左右 (交叉)' },
+  { value: 'top-bottom', label: '上下' },
+  { value: 'anaglyph', label: '红青' },
+];
+
+export const DEFAULT_STEREO_OPTIONS: StereoOptions = {
+  mode: 'off',
+  interaxial: 0.06,
+  convergence: 0,
+};
+
+// An orthographic pair has no perspective parallax, so the eyes are toed in by the angle
+// a perspective pair would have when viewing from this distance.
+const ORTHO_VIEW_DISTANCE = 1.5;
+
+// Dubois least-squares anaglyph matrices for red/cyan glasses, applied in linear colour.
+const ANAGLYPH_LEFT = new THREE.Matrix3().fromArray([
+  0.456100, -0.0400822, -0.0152161,
+  0.500484, -0.0378246, -0.0205971,
+  0.176381, -0.0157589, -0.00546856,
+]);
+const ANAGLYPH_RIGHT = new THREE.Matrix3().fromArray([
+  -0.0434706, 0.378476, -0.0721527,
+  -0.0879388, 0.73364, -0.112961,
+  -0.00155529, -0.0184503, 1.2264,
+]);
+
+const anaglyphVertexShader = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+const anaglyphFragmentShader = `
+  uniform sampler2D uLeft;
+  uniform sampler2D uRight;
+  uniform mat3 uMatrixLeft;
+  uniform mat3 uMatrixRight;
+  varying vec2 vUv;
+
+  vec3 toLinear(vec3 c) {
+    return mix(c / 12.92, pow((c + 0.055) / 1.055, vec3(2.4)), step(0.04045, c));
+  }
+
+  vec3 toSRGB(vec3 c) {
+    return mix(c * 12.92, 1.055 * pow(c, vec3(1.0 / 2.4)) - 0.055, step(0.0031308, c));
+  }
+
+  void main() {
+    vec4 left = texture2D(uLeft, vUv);
+    vec4 right = texture2D(uRight, vUv);
+    vec3 color = clamp(uMatrixLeft * toLinear(left.rgb) + uMatrixRight * toLinear(right.rgb), 0.0, 1.0);
+    gl_FragColor = vec4(toSRGB(color), max(left.a, right.a));
+  }
+`;
+
+/**
+ * Returns left and right eye cameras for `camera` at the given viewport aspect. The zero-parallax
+ * plane sits `convergence` in front of the image plane at z = 0.
+ */
+export function getEyeCameras(camera: SceneCamera, options: StereoOptions, aspect: number): [SceneCamera, SceneCamera] {
+  const base = camera.clone();
+  updateCameraAspect(base, aspect);
+  base.updateMatrixWorld();
+  const focusDistance = Math.max(0.01, base.position.z - options.convergence);
+
+  if (base.type === 'PerspectiveCamera') {
+    const perspective = base as THREE.PerspectiveCamera;
+    perspective.focus = focusDistance;
+    const stereo = new THREE.StereoCamera();
+    stereo.eyeSep = options.interaxial;
+    stereo.update(perspective);
+    return [stereo.cameraL, stereo.cameraR];
+  }
+
+  const focus = new THREE.Vector3(base.position.x, base.position.y, base.position.z - focusDistance);
+  const angle = Math.atan2(options.interaxial / 2, ORTHO_VIEW_DISTANCE);
+  const toeIn = (direction: number) => {
+    const eye = base.clone();
+    eye.position.sub(focus).applyAxisAngle(new THREE.Vector3(0, 1, 0), direction * angle).add(focus);
+    eye.lookAt(focus);
+    eye.updateMatrixWorld();
+    return eye;
+  };
+  return [toeIn(-1), toeIn(1)];
+}
+
+export interface StereoRenderer {
+  /** Renders `scene` in the given stereo layout into `target`, or the canvas when `target` is null. */
+  render: (scene: THREE.Scene, camera: SceneCamera, options: StereoOptions, target: THREE.WebGLRenderTarget | null) => void;
+  dispose: () => void;
+}
+
+export function createStereoRenderer(renderer: THREE.WebGLRenderer): StereoRenderer {
+  const leftTarget = new THREE.WebGLRenderTarget(1, 1);
+  const rightTarget = new THREE.WebGLRenderTarget(1, 1);
+  const anaglyphMaterial = new THREE.ShaderMaterial({
+    uniforms: {
+      uLeft: { value: leftTarget.texture },
+      uRight: { value: rightTarget.texture },
+      uMatrixLeft: { value: ANAGLYPH_LEFT },
+      uMatrixRight: { value: ANAGLYPH_RIGHT },
+    },
+    vertexShader: anaglyphVertexShader,
+    fragmentShader: anaglyphFragmentShader,
+    transparent: true,
+  });
+  const anaglyphGeometry = new THREE.PlaneGeometry(2, 2);
+  const anaglyphScene = new THREE.Scene();
+  anaglyphScene.add(new THREE.Mesh(anaglyphGeometry, anaglyphMaterial));
+  const anaglyphCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+  const size = new THREE.Vector2();
+
+  const setRegion = (target: THREE.WebGLRenderTarget | null, x: number, y: number, width: number, height: number, scissorTest: boolean) => {
+    if (target) {
+      target.viewport.set(x, y, width, height);
+      target.scissor.set(x, y, width, height);
+      target.scissorTest = scissorTest;
+    } else {
+      renderer.setViewport(x, y, width, height);
+      renderer.setScissor(x, y, width, height);
+      renderer.setScissorTest(scissorTest);
+    }
+  };
+
+  const renderAnaglyph = (scene: THREE.Scene, camera: SceneCamera, options: StereoOptions, target: THREE.WebGLRenderTarget | null, width: number, height: number) => {
+    const pixelRatio = target ? 1 : renderer.getPixelRatio();
+    leftTarget.setSize(Math.round(width * pixelRatio), Math.round(height * pixelRatio));
+    rightTarget.setSize(Math.round(width * pixelRatio), Math.round(height * pixelRatio));
+
+    const [left, right] = getEyeCameras(camera, options, width / height);
+    renderer.setRenderTarget(leftTarget);
+    renderer.render(scene, left);
+    renderer.setRenderTarget(rightTarget);
+    renderer.render(scene, right);
+    renderer.setRenderTarget(target);
+    renderer.render(anaglyphScene, anaglyphCamera);
+  };
+
+  const renderSplit = (scene: THREE.Scene, camera: SceneCamera, options: StereoOptions, target: THREE.WebGLRenderTarget | null, width: number, height: number) => {
+    renderer.setRenderTarget(target);
+    const horizontal = options.mode !== 'top-bottom';
+    const eyeWidth = horizontal ? Math.floor(width / 2) : width;
+    const eyeHeight = horizontal ? height : Math.floor(height / 2);
+    const [left, right] = getEyeCameras(camera, options, eyeWidth / eyeHeight);
+    // Parallel viewing puts the left eye on the left, cross-eyed viewing swaps them.
+    // Top-bottom puts the left eye on top; viewports are measured from the bottom edge.
+    const [first, second] = options.mode === 'sbs-cross' ? [right, left] : [left, right];
+
+    if (horizontal) {
+      setRegion(target, 0, 0, eyeWidth, eyeHeight, true);
+      renderer.render(scene, first);
+      setRegion(target, eyeWidth, 0, width - eyeWidth, eyeHeight, true);
+      renderer.render(scene, second);
+    } else {
+      setRegion(target, 0, height - eyeHeight, eyeWidth, eyeHeight, true);
+      renderer.render(scene, first);
+      setRegion(target, 0, 0, eyeWidth, height - eyeHeight, true);
+      renderer.render(scene, second);
+    }
+    setRegion(target, 0, 0, width, height, false);
+  };
+
+  return {
+    render(scene, camera, options, target) {
+      const previousTarget = renderer.getRenderTarget();
+      if (target) {
+        size.set(target.width, target.height);
+      } else {
+        renderer.getSize(size);
+      }
+
+      if (options.mode === 'anaglyph') {
+        renderAnaglyph(scene, camera, options, target, size.x, size.y);
+      } else if (options.mode === 'off') {
+        renderer.setRenderTarget(target);
+        renderer.render(scene, camera);
+      } else {
+        renderSplit(scene, camera, options, target, size.x, size.y);
+      }
+      renderer.setRenderTarget(previousTarget);
+    },
+    dispose() {
+      leftTarget.dispose();
+      rightTarget.dispose();
+      anaglyphMaterial.dispose();
+      anaglyphGeometry.dispose();
+    },
+  };
+}
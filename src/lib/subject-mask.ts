@@ -0,0 +1,89 @@
+import { canvasToBlob } from '@/lib/download';
+import { resizeDepthMap, type DepthMap } from '@/lib/depth-map';
+
+/** Subject mask as produced by the segmentation model: one byte per pixel, 255 inside the subject. */
+export interface MaskImage {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Mask values at or above this count as part of the subject.
+const MASK_THRESHOLD = 0.5;
+
+/** Stores a mask as a grayscale PNG so it can be kept with the history entry. */
+export async function createMaskFile(mask: MaskImage): Promise<File> {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to get 2d context from canvas');
+  }
+  const imageData = context.createImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    imageData.data[i * 4] = mask.data[i];
+    imageData.data[i * 4 + 1] = mask.data[i];
+    imageData.data[i * 4 + 2] = mask.data[i];
+    imageData.data[i * 4 + 3] = 255;
+  }
+  context.putImageData(imageData, 0, 0);
+  return new File([await canvasToBlob(canvas)], 'subject-mask.png', { type: 'image/png' });
+}
+
+/** Largest or smallest value within `radius` of each pixel; the window is separable for both. */
+const extremeFilter = (values: Float32Array, width: number, height: number, radius: number, pick: (a: number, b: number) => number) => {
+  const horizontal = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      let extreme = values[row + x];
+      for (let sx = Math.max(0, x - radius); sx <= Math.min(width - 1, x + radius); sx++) {
+        extreme = pick(extreme, values[row + sx]);
+      }
+      horizontal[row + x] = extreme;
+    }
+  }
+  const output = new Float32Array(values.length);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      let extreme = horizontal[y * width + x];
+      for (let sy = Math.max(0, y - radius); sy <= Math.min(height - 1, y + radius); sy++) {
+        extreme = pick(extreme, horizontal[sy * width + x]);
+      }
+      output[y * width + x] = extreme;
+    }
+  }
+  return output;
+};
+
+/**
+ * Snaps the depth edge around the subject to the mask outline. Depth models blur the subject into
+ * the background over several pixels; within `radius` of the outline, subject pixels take the
+ * nearest subject depth around them and background pixels the farthest background depth.
+ * `mask` holds the mask in a depth map's layout and is resampled to the depth map's size.
+ */
+export function sharpenSubjectEdge(depth: DepthMap, mask: DepthMap, radius: number): DepthMap {
+  const { width, height } = depth;
+  const inside = resizeDepthMap(mask, width, height).data;
+  const subject = new Float32Array(depth.data.length);
+  const background = new Float32Array(depth.data.length);
+  for (let i = 0; i < depth.data.length; i++) {
+    const isSubject = inside[i] >= MASK_THRESHOLD;
+    subject[i] = isSubject ? depth.data[i] : -Infinity;
+    background[i] = isSubject ? Infinity : depth.data[i];
+  }
+  const nearestSubject = extremeFilter(subject, width, height, radius, Math.max);
+  const farthestBackground = extremeFilter(background, width, height, radius, Math.min);
+
+  const data = depth.data.slice();
+  for (let i = 0; i < data.length; i++) {
+    // A finite value from the other side means the outline is within the radius.
+    if (inside[i] >= MASK_THRESHOLD) {
+      if (farthestBackground[i] !== Infinity) data[i] = nearestSubject[i];
+    } else if (nearestSubject[i] !== -Infinity) {
+      data[i] = farthestBackground[i];
+    }
+  }
+  return { data, width, height };
+}
@@ -0,0 +1,25 @@
+import { canvasToBlob } from '@/lib/download';
+
+// Longer side of the thumbnails shown in the history list, in pixels. Cards are at most about
+// 160 CSS pixels wide, so this stays sharp on high-density screens.
+const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.8;
+
+/** Scales a photo down to a small JPEG for the history list. */
+export async function createThumbnail(image: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Failed to get 2d context from canvas');
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await canvasToBlob(canvas, 'image/jpeg', THUMBNAIL_QUALITY);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,150 @@
+import { resizeDepthMap, type DepthMap } from '@/lib/depth-map';
+
+/** A tile of the output depth map, in output pixels. */
+export interface Tile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Running weighted sum of the tiles placed so far. */
+export interface TileAccumulator {
+  sum: Float32Array;
+  weight: Float32Array;
+  width: number;
+  height: number;
+  global: DepthMap;
+}
+
+// Tiled output is capped at this size on its longer side; beyond it the model adds no detail that
+// justifies the memory a float map of a 48MP photo would take.
+export const TILED_MAX_SIZE = 4096;
+// Share of each tile that overlaps its neighbours and is feathered across.
+const TILE_OVERLAP = 0.25;
+// The global pass keeps this small weight everywhere so pixels no tile could be fitted for still
+// get a value.
+const GLOBAL_WEIGHT = 1e-3;
+// Tiles whose depth barely varies cannot be fitted reliably.
+const MIN_VARIANCE = 1e-10;
+
+/** Size of the tiled output for a photo, keeping its aspect ratio. */
+export function getTiledOutputSize(width: number, height: number) {
+  const scale = Math.min(1, TILED_MAX_SIZE / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+// Evenly spread starts of tiles of `size` covering `length`, with at least the configured overlap.
+const tileStarts = (length: number, size: number) => {
+  if (size >= length) return [0];
+  const stride = size * (1 - TILE_OVERLAP);
+  const count = Math.ceil((length - size) / stride) + 1;
+  return Array.from({ length: count }, (_, i) => Math.round((i * (length - size)) / (count - 1)));
+};
+
+/**
+ * Lays out square tiles over a `width` × `height` map so that `tilesAcross` of them, overlapping,
+ * span its longer side. The shorter side gets as many as it needs.
+ */
+export function planTiles(width: number, height: number, tilesAcross: number): Tile[] {
+  const size = Math.ceil(Math.max(width, height) / (tilesAcross * (1 - TILE_OVERLAP) + TILE_OVERLAP));
+  const tiles: Tile[] = [];
+  for (const y of tileStarts(height, size)) {
+    for (const x of tileStarts(width, size)) {
+      tiles.push({ x, y, width: Math.min(size, width - x), height: Math.min(size, height - y) });
+    }
+  }
+  return tiles;
+}
+
+/** Starts blending tiles on top of the global pass, which must already be at the output size. */
+export function createTileAccumulator(global: DepthMap): TileAccumulator {
+  const { width, height } = global;
+  const sum = new Float32Array(width * height);
+  const weight = new Float32Array(width * height).fill(GLOBAL_WEIGHT);
+  for (let i = 0; i < sum.length; i++) {
+    sum[i] = global.data[i] * GLOBAL_WEIGHT;
+  }
+  return { sum, weight, width, height, global };
+}
+
+/**
+ * Least-squares scale and shift that map `values` onto the global pass within `tile`. Monocular
+ * models only predict depth up to an affine transform, so each tile comes out on its own scale.
+ */
+export function fitScaleShift(values: Float32Array, global: DepthMap, tile: Tile) {
+  let sumValue = 0;
+  let sumGlobal = 0;
+  let sumValueSquared = 0;
+  let sumProduct = 0;
+  for (let y = 0; y < tile.height; y++) {
+    for (let x = 0; x < tile.width; x++) {
+      const value = values[y * tile.width + x];
+      const target = global.data[(tile.y + y) * global.width + tile.x + x];
+      sumValue += value;
+      sumGlobal += target;
+      sumValueSquared += value * value;
+      sumProduct += value * target;
+    }
+  }
+  const count = tile.width * tile.height;
+  const meanValue = sumValue / count;
+  const meanGlobal = sumGlobal / count;
+  const variance = sumValueSquared / count - meanValue * meanValue;
+  if (variance < MIN_VARIANCE) return null;
+  const scale = (sumProduct / count - meanValue * meanGlobal) / variance;
+  // A tile that only fits upside down disagrees with the global pass and is left out.
+  if (scale <= 0) return null;
+  return { scale, shift: meanGlobal - scale * meanValue };
+}
+
+// Weight ramps from 0 to 1 across the overlap at edges shared with another tile; edges on the
+// border of the map keep full weight.
+const edgeWeight = (position: number, length: number, ramp: number, featherStart: boolean, featherEnd: boolean) => {
+  let weight = 1;
+  if (featherStart) weight = Math.min(weight, (position + 0.5) / ramp);
+  if (featherEnd) weight = Math.min(weight, (length - position - 0.5) / ramp);
+  // Smoothstep hides the ramp's corners where tiles meet.
+  return weight * weight * (3 - 2 * weight);
+};
+
+/**
+ * Fits a tile's model output to the global pass and adds it with feathered edges. `depth` may be at
+ * any resolution and is resampled to the tile. Returns false when the tile could not be fitted.
+ */
+export function addDepthTile(accumulator: TileAccumulator, tile: Tile, depth: DepthMap): boolean {
+  const values = resizeDepthMap(depth, tile.width, tile.height).data;
+  const fit = fitScaleShift(values, accumulator.global, tile);
+  if (!fit) return false;
+
+  const rampX = Math.max(1, tile.width * TILE_OVERLAP);
+  const rampY = Math.max(1, tile.height * TILE_OVERLAP);
+  const featherLeft = tile.x > 0;
+  const featherRight = tile.x + tile.width < accumulator.width;
+  const featherTop = tile.y > 0;
+  const featherBottom = tile.y + tile.height < accumulator.height;
+
+  for (let y = 0; y < tile.height; y++) {
+    const weightY = edgeWeight(y, tile.height, rampY, featherTop, featherBottom);
+    for (let x = 0; x < tile.width; x++) {
+      const weight = weightY * edgeWeight(x, tile.width, rampX, featherLeft, featherRight);
+      const index = (tile.y + y) * accumulator.width + tile.x + x;
+      accumulator.sum[index] += (values[y * tile.width + x] * fit.scale + fit.shift) * weight;
+      accumulator.weight[index] += weight;
+    }
+  }
+  return true;
+}
+
+/** The blended depth map. Values are on the global pass's scale and are not normalised. */
+export function resolveTiledDepth(accumulator: TileAccumulator): DepthMap {
+  const { sum, weight, width, height } = accumulator;
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = sum[i] / weight[i];
+  }
+  return { data, width, height };
+}
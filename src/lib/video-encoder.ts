@@ -0,0 +1,159 @@
+import { Muxer as Mp4Muxer, ArrayBufferTarget as Mp4Target } from 'mp4-muxer';
+import { Muxer as WebmMuxer, ArrayBufferTarget as WebmTarget } from 'webm-muxer';
+import { strToU8, zipSync, type Zippable } from 'fflate';
+import { canvasToBlob } from '@/lib/download';
+
+export type VideoContainer = 'mp4' | 'webm';
+export type RecordingMode = 'realtime' | 'offline' | 'animated-image';
+
+export interface VideoOutputOptions {
+  mode: RecordingMode;
+  container: VideoContainer;
+  width: number;
+  height: number;
+}
+
+export interface EncodedVideo {
+  blob: Blob;
+  fileName: string;
+  /** `'png-sequence'` when no WebCodecs encoder was available and frames were zipped instead. */
+  format: VideoContainer | 'png-sequence';
+}
+
+export const videoResolutions: { label: string; width: number; height: number }[] = [
+  { label: '720p 横屏', width: 1280, height: 720 },
+  { label: '1080p 横屏', width: 1920, height: 1080 },
+  { label: '1080p 竖屏', width: 1080, height: 1920 },
+  { label: '1080 方形', width: 1080, height: 1080 },
+  { label: '4K 横屏', width: 3840, height: 2160 },
+];
+
+export const DEFAULT_VIDEO_OUTPUT: VideoOutputOptions = {
+  mode: 'offline',
+  container: 'mp4',
+  width: 1920,
+  height: 1080,
+};
+
+// Ordered from the highest profile/level down, so large outputs pick a level that can hold them.
+const codecCandidates: Record<VideoContainer, { codec: string; muxerCodec: string }[]> = {
+  mp4: [
+    { codec: 'avc1.640033', muxerCodec: 'avc' },
+    { codec: 'avc1.640028', muxerCodec: 'avc' },
+    { codec: 'avc1.4d0028', muxerCodec: 'avc' },
+    { codec: 'avc1.42001f', muxerCodec: 'avc' },
+  ],
+  webm: [
+    { codec: 'vp09.00.40.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp8', muxerCodec: 'V_VP8' },
+  ],
+};
+
+const MAX_QUEUED_FRAMES = 8;
+
+export interface FrameSink {
+  addFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>;
+  finish: () => Promise<EncodedVideo>;
+}
+
+const findEncoderConfig = async (container: VideoContainer, width: number, height: number, fps: number) => {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') return null;
+
+  for (const candidate of codecCandidates[container]) {
+    const config: VideoEncoderConfig = {
+      codec: candidate.codec,
+      width,
+      height,
+      framerate: fps,
+      bitrate: Math.round(width * height * fps * 0.15),
+    };
+    try {
+      const { supported } = await VideoEncoder.isConfigSupported(config);
+      if (supported) return { config, muxerCodec: candidate.muxerCodec };
+    } catch {
+      // An unknown codec string throws on some browsers; try the next one.
+    }
+  }
+  return null;
+};
+
+const createWebCodecsSink = async (container: VideoContainer, width: number, height: number, fps: number, baseName: string): Promise<FrameSink | null> => {
+  const found = await findEncoderConfig(container, width, height, fps);
+  if (!found) return null;
+
+  const muxer = container === 'mp4'
+    ? new Mp4Muxer({
+        target: new Mp4Target(),
+        video: { codec: found.muxerCodec as 'avc', width, height, frameRate: fps },
+        fastStart: 'in-memory',
+      })
+    : new WebmMuxer({
+        target: new WebmTarget(),
+        video: { codec: found.muxerCodec, width, height, frameRate: fps },
+      });
+
+  let encoderError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => {
+      encoderError = error instanceof Error ? error : new Error(String(error));
+    },
+  });
+  encoder.configure(found.config);
+
+  const frameDuration = 1_000_000 / fps;
+
+  return {
+    async addFrame(canvas, index) {
+      if (encoderError) throw encoderError;
+      while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameDuration), duration: Math.round(frameDuration) });
+      // A key frame every two seconds keeps the output seekable.
+      encoder.encode(frame, { keyFrame: index % (fps * 2) === 0 });
+      frame.close();
+    },
+    async finish() {
+      await encoder.flush();
+      encoder.close();
+      if (encoderError) throw encoderError;
+      muxer.finalize();
+      const { buffer } = muxer.target;
+      return {
+        blob: new Blob([buffer], { type: container === 'mp4' ? 'video/mp4' : 'video/webm' }),
+        fileName: `${baseName}.${container}`,
+        format: container,
+      };
+    },
+  };
+};
+
+const createPngSequenceSink = (fps: number, baseName: string): FrameSink => {
+  const files: Zippable = {};
+  return {
+    async addFrame(canvas, index) {
+      const png = await canvasToBlob(canvas);
+      files[`frame-${String(index + 1).padStart(5, '0')}.png`] = [new Uint8Array(await png.arrayBuffer()), { level: 0 }];
+    },
+    async finish() {
+      files['README.txt'] = strToU8(`PNG image sequence rendered at ${fps} fps.\n`);
+      const archive = zipSync(files);
+      return {
+        blob: new Blob([archive], { type: 'application/zip' }),
+        fileName: `${baseName}-frames.zip`,
+        format: 'png-sequence',
+      };
+    },
+  };
+};
+
+/**
+ * Creates a sink that encodes rendered frames into the requested container through WebCodecs,
+ * falling back to a ZIP of PNG frames when the browser has no suitable encoder.
+ * Width and height must be even for H.264.
+ */
+export async function createFrameSink(container: VideoContainer, width: number, height: number, fps: number, baseName: string): Promise<FrameSink> {
+  return (await createWebCodecsSink(container, width, height, fps, baseName)) ?? createPngSequenceSink(fps, baseName);
+}
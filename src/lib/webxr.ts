@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+
+// TypeScript's DOM library does not ship WebXR types; only the parts used here are declared.
+// Everything goes through `navigator.xr`, so the WebXR emulator extension and the webxr-polyfill
+// can stand in for a headset during development and testing.
+export interface XRSessionLike extends EventTarget {
+  end: () => Promise<void>;
+}
+
+interface XRSystemLike {
+  isSessionSupported: (mode: string) => Promise<boolean>;
+  requestSession: (mode: string, options?: { requiredFeatures?: string[]; optionalFeatures?: string[] }) => Promise<XRSessionLike>;
+}
+
+/** Distance from the viewer's starting position to the image, in metres. */
+export const VR_VIEW_DISTANCE = 1.5;
+/** Height of the image in the headset, in metres. */
+export const VR_IMAGE_HEIGHT = 1.2;
+/** Angle past the view angle limit over which the image fades out. */
+const VR_FADE_RANGE = THREE.MathUtils.degToRad(10);
+
+const getXRSystem = () => {
+  if (typeof navigator === 'undefined') return undefined;
+  return (navigator as Navigator & { xr?: XRSystemLike }).xr;
+};
+
+export async function isImmersiveVRSupported() {
+  const xr = getXRSystem();
+  if (!xr) return false;
+  try {
+    return await xr.isSessionSupported('immersive-vr');
+  } catch {
+    return false;
+  }
+}
+
+export async function requestImmersiveVRSession() {
+  const xr = getXRSystem();
+  if (!xr) {
+    throw new Error('WebXR is not supported in this browser.');
+  }
+  return xr.requestSession('immersive-vr');
+}
+
+const viewerOffset = new THREE.Vector3();
+
+/**
+ * Returns the opacity of `mesh` as seen from `viewer`, both in world space. The mesh is fully
+ * visible while the viewer stays within `maxAngle` of its front and fades out beyond that,
+ * mirroring the rotation limit applied to drag and sensor input.
+ */
+export function getViewFade(viewer: THREE.Vector3, mesh: THREE.Object3D, maxAngle: number) {
+  viewerOffset.copy(viewer);
+  mesh.worldToLocal(viewerOffset);
+  if (viewerOffset.z <= 0) return 0;
+
+  const horizontal = Math.abs(Math.atan2(viewerOffset.x * mesh.scale.x, viewerOffset.z * mesh.scale.z));
+  const vertical = Math.abs(Math.atan2(viewerOffset.y * mesh.scale.y, viewerOffset.z * mesh.scale.z));
+  const angle = Math.max(horizontal, vertical);
+  return 1 - THREE.MathUtils.smoothstep(angle, maxAngle, maxAngle + VR_FADE_RANGE);
+}
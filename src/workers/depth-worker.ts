@@ -1,7 +1,17 @@
 
 // In a dedicated worker file, e.g., src/workers/depth-worker.ts
-import { pipeline, env } from '@huggingface/transformers';
+import { pipeline, env, RawImage } from '@huggingface/transformers';
 import type { Pipeline } from '@huggingface/transformers';
+import { normalizeDepthValues, resizeDepthMap, type DepthMap } from '@/lib/depth-map';
+import { addDepthTile, createTileAccumulator, getTiledOutputSize, planTiles, resolveTiledDepth } from '@/lib/tiled-depth';
+import {
+    DepthWorkerError,
+    type DepthWorkerDevice,
+    type DepthWorkerErrorCode,
+    type DepthWorkerProgress,
+    type DepthWorkerRequest,
+    type DepthWorkerResponse,
+} from '@/lib/depth-worker-protocol';
 
 // Configure the environment
 env.allowRemoteModels = true;
@@ -12,16 +22,12 @@ class DepthEstimationPipeline {
     static task = 'depth-estimation';
     static instance: Pipeline | null = null;
     static model: string | null = null;
-    static device: string | null = null;
+    static device: DepthWorkerDevice | null = null;
     static initialized = false;
-    static device_checked = false;
 
-    static async getInstance(model: string, useMirror: boolean, progress_callback?: Function) {
-        
-        env.remoteHost = useMirror ? "https://www.modelscope.cn/models" : "https://huggingface.co";
-
-        if (!this.device_checked) {
-             let device: 'wasm' | 'webgpu' = 'wasm';
+    static async detectDevice() {
+        if (this.device === null) {
+            let device: DepthWorkerDevice = 'wasm';
             // @ts-ignore
             if (typeof self.navigator !== 'undefined' && self.navigator.gpu) {
                 try {
@@ -34,14 +40,14 @@ class DepthEstimationPipeline {
                 }
             }
             this.device = device;
-            self.postMessage({ type: 'device-info', payload: this.device });
-            this.device_checked = true;
         }
+        return this.device;
+    }
 
-
-        if (model === 'pre-check') {
-            return null;
-        }
+    static async getInstance(model: string, useMirror: boolean, progress_callback?: Function) {
+        
+        env.remoteHost = useMirror ? "https://www.modelscope.cn/models" : "https://huggingface.co";
+        await this.detectDevice();
 
         if (this.instance === null || this.model !== model) {
             this.model = model;
@@ -60,47 +66,151 @@ class DepthEstimationPipeline {
     }
 }
 
+// Background removal model that produces the subject mask. It runs on the device chosen for depth
+// estimation and is downloaded the first time a mask is requested.
+class SegmentationPipeline {
+    static task = 'background-removal' as const;
+    static model = 'briaai/RMBG-1.4';
+    static instance: any = null;
 
-self.onmessage = async (event: MessageEvent) => {
-    const { type, payload } = event.data;
+    static async getInstance(useMirror: boolean, progress_callback?: (progress: any) => void) {
+        env.remoteHost = useMirror ? "https://www.modelscope.cn/models" : "https://huggingface.co";
 
+        if (this.instance === null) {
+            this.instance = await pipeline(this.task, this.model, { progress_callback, device: DepthEstimationPipeline.device || 'wasm' });
+        }
+        return this.instance;
+    }
+}
+
+const respond = (response: DepthWorkerResponse, transfer: Transferable[] = []) => {
+    self.postMessage(response, { transfer });
+};
+
+const reportProgress = (id: number, progress: DepthWorkerProgress) => {
+    respond({ type: 'progress', payload: { id, progress } });
+};
+
+// Ids of requests in progress, and of those among them the UI has cancelled. Inference itself
+// cannot be interrupted, so running jobs check this between their steps and stop at the next one.
+const activeIds = new Set<number>();
+const cancelledIds = new Set<number>();
+
+const throwIfCancelled = (id: number) => {
+    if (cancelledIds.has(id)) throw new DepthWorkerError('cancelled', 'The request was cancelled.');
+};
+
+// Wraps failures of a step that are not already coded with `code`.
+const withErrorCode = async <T>(code: DepthWorkerErrorCode, step: () => Promise<T>): Promise<T> => {
     try {
-        if (type === 'init') {
-            await DepthEstimationPipeline.getInstance(payload.model, payload.useMirror, (progress: any) => {
-                if (progress.status === 'progress') {
-                    const percentage = (progress.progress).toFixed(2);
-                    self.postMessage({ type: 'status', payload: `下载中... ${percentage}% (${(progress.loaded / 1024 / 1024).toFixed(2)}MB / ${(progress.total / 1024 / 1024).toFixed(2)}MB)` });
-                } else if (progress.status === 'ready') {
-                    self.postMessage({ type: 'status', payload: '模型准备就绪' });
-                } else {
-                    self.postMessage({ type: 'status', payload: progress.status });
-                }
-            });
-            if (payload.model !== 'pre-check') {
-                 self.postMessage({ type: 'status', payload: '就绪' });
-            }
+        return await step();
+    } catch (e: any) {
+        throw e instanceof DepthWorkerError ? e : new DepthWorkerError(code, e?.message ?? String(e));
+    }
+};
 
-        } else if (type === 'generate') {
-            self.postMessage({ type: 'status', payload: '正在生成深度图...' });
-
-            const detector = await DepthEstimationPipeline.getInstance(DepthEstimationPipeline.model!, false, (p: any) => console.log(p));
-            if (!detector || !DepthEstimationPipeline.initialized) throw new Error("Detector not initialized or initialization failed.");
-
-            const { depth } = await detector(payload.imageUrl) as any;
-            
-            // Convert single-channel grayscale to RGBA
-            const rgbaData = new Uint8ClampedArray(depth.width * depth.height * 4);
-            for (let i = 0; i < depth.data.length; ++i) {
-                const depthValue = depth.data[i];
-                rgbaData[i * 4] = depthValue;       // R
-                rgbaData[i * 4 + 1] = depthValue;   // G
-                rgbaData[i * 4 + 2] = depthValue;   // B
-                rgbaData[i * 4 + 3] = 255;          // A
-            }
+// Maps transformers.js download callbacks onto progress events.
+const downloadProgress = (id: number, phase: 'download' | 'segmentation-download') => (progress: any) => {
+    if (progress.status === 'progress') {
+        reportProgress(id, { phase, percent: progress.progress, loaded: progress.loaded, total: progress.total, file: progress.file });
+    } else if (progress.status === 'done' && phase === 'download') {
+        reportProgress(id, { phase: 'load', file: progress.file });
+    }
+};
+
+// Runs the model on one image and keeps its float output instead of the pipeline's 8-bit preview.
+const predictDepth = async (detector: any, image: RawImage | string): Promise<DepthMap> => {
+    const { predicted_depth } = await withErrorCode<any>('inference-failed', () => detector(image));
+    const [height, width] = predicted_depth.dims;
+    return { data: Float32Array.from(predicted_depth.data), width, height };
+};
+
+// Runs a low-resolution pass over the whole photo and then overlapping tiles at the model's input
+// size. Each tile is fitted to the global pass, so the blend keeps the global layout of the scene
+// and gains the tiles' detail.
+const predictTiledDepth = async (id: number, detector: any, imageUrl: string, tilesAcross: number): Promise<DepthMap> => {
+    const photo = await withErrorCode('image-load-failed', () => RawImage.fromURL(imageUrl));
+    const { width, height } = getTiledOutputSize(photo.width, photo.height);
+    const image = width === photo.width && height === photo.height ? photo : await photo.resize(width, height);
+
+    const global = await predictDepth(detector, image);
+    const accumulator = createTileAccumulator(resizeDepthMap(global, width, height));
+
+    const tiles = planTiles(width, height, tilesAcross);
+    for (let i = 0; i < tiles.length; i++) {
+        throwIfCancelled(id);
+        reportProgress(id, { phase: 'tiles', loaded: i, total: tiles.length, percent: (i / tiles.length) * 100 });
+        const tile = tiles[i];
+        const crop = await image.crop([tile.x, tile.y, tile.x + tile.width - 1, tile.y + tile.height - 1]);
+        if (!addDepthTile(accumulator, tile, await predictDepth(detector, crop))) {
+            console.warn(`Tile ${i + 1} of ${tiles.length} could not be fitted to the global pass and was skipped.`);
+        }
+    }
+    reportProgress(id, { phase: 'tiles', loaded: tiles.length, total: tiles.length, percent: 100 });
+    return resolveTiledDepth(accumulator);
+};
+
+const handleRequest = async ({ type, payload }: DepthWorkerRequest) => {
+    const { id } = payload;
+    if (type === 'detect-device') {
+        respond({ type: 'device', payload: { id, device: await DepthEstimationPipeline.detectDevice() } });
 
-            self.postMessage({ type: 'result', payload: { depth: { data: rgbaData, width: depth.width, height: depth.height } } });
+    } else if (type === 'init') {
+        await withErrorCode('model-load-failed', () =>
+            DepthEstimationPipeline.getInstance(payload.model, payload.useMirror, downloadProgress(id, 'download'))
+        );
+        respond({ type: 'ready', payload: { id, model: payload.model } });
+
+    } else if (type === 'generate') {
+        const detector = DepthEstimationPipeline.instance;
+        if (!detector || !DepthEstimationPipeline.initialized) {
+            throw new DepthWorkerError('model-not-ready', 'The depth model has not been loaded.');
         }
+        reportProgress(id, { phase: 'inference' });
+
+        const { data: values, width, height } = payload.tiles > 1
+            ? await predictTiledDepth(id, detector, payload.imageUrl, payload.tiles)
+            : await predictDepth(detector, payload.imageUrl);
+        throwIfCancelled(id);
+        const data = normalizeDepthValues(values);
+
+        respond({ type: 'depth', payload: { id, depth: { data, width, height } } }, [data.buffer]);
+
+    } else if (type === 'segment') {
+        const segmenter = await withErrorCode('model-load-failed', () =>
+            SegmentationPipeline.getInstance(payload.useMirror, downloadProgress(id, 'segmentation-download'))
+        );
+        throwIfCancelled(id);
+        reportProgress(id, { phase: 'segmentation' });
+
+        // The pipeline returns the photo with the mask in its alpha channel.
+        const [output] = await withErrorCode<any>('segmentation-failed', () => segmenter(payload.imageUrl));
+        throwIfCancelled(id);
+        const mask = new Uint8Array(output.width * output.height);
+        for (let i = 0; i < mask.length; i++) {
+            mask[i] = output.data[i * output.channels + output.channels - 1];
+        }
+
+        respond({ type: 'mask', payload: { id, mask: { data: mask, width: output.width, height: output.height } } }, [mask.buffer]);
+    }
+};
+
+self.onmessage = async (event: MessageEvent<DepthWorkerRequest>) => {
+    const request = event.data;
+    if (request.type === 'cancel') {
+        // A cancel can arrive after its request has finished, when there is nothing left to stop.
+        if (activeIds.has(request.payload.id)) cancelledIds.add(request.payload.id);
+        return;
+    }
+
+    activeIds.add(request.payload.id);
+    try {
+        await handleRequest(request);
     } catch (e: any) {
-        self.postMessage({ type: 'error', payload: e.message });
+        const error = e instanceof DepthWorkerError ? e : new DepthWorkerError('inference-failed', e?.message ?? String(e));
+        respond({ type: 'error', payload: { id: request.payload.id, code: error.code, message: error.message } });
+    } finally {
+        activeIds.delete(request.payload.id);
+        cancelledIds.delete(request.payload.id);
     }
 };
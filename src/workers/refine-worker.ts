@@ -0,0 +1,28 @@
+// Refines a depth map against its photo off the main thread.
+import { refineDepth } from '@/lib/depth-refine';
+
+self.onmessage = (event: MessageEvent) => {
+    const { type, payload } = event.data;
+    const { id } = payload;
+
+    try {
+        if (type === 'refine') {
+            const { depth, guide, options } = payload;
+            let lastPercent = -1;
+            const refined = refineDepth(depth, guide, options, (progress) => {
+                const percent = Math.floor(progress * 100);
+                if (percent !== lastPercent) {
+                    lastPercent = percent;
+                    self.postMessage({ type: 'status', payload: { id, percent } });
+                }
+            });
+
+            self.postMessage(
+                { type: 'result', payload: { id, depth: refined } },
+                { transfer: [refined.data.buffer] }
+            );
+        }
+    } catch (e: any) {
+        self.postMessage({ type: 'error', payload: { id, message: e.message } });
+    }
+};
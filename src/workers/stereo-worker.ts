@@ -0,0 +1,28 @@
+// Computes a depth map from a stereo pair off the main thread.
+import { computeDisparity, getDefaultMatchOptions, normalizeDisparity } from '@/lib/stereo-matching';
+
+self.onmessage = (event: MessageEvent) => {
+    const { type, payload } = event.data;
+
+    try {
+        if (type === 'match') {
+            const { left, right } = payload;
+            let lastPercent = -1;
+            const disparity = computeDisparity(left, right, getDefaultMatchOptions(left.width), (progress) => {
+                const percent = Math.floor(progress * 100);
+                if (percent !== lastPercent) {
+                    lastPercent = percent;
+                    self.postMessage({ type: 'status', payload: `正在进行立体匹配... ${percent}%` });
+                }
+            });
+            const data = normalizeDisparity(disparity);
+
+            self.postMessage(
+                { type: 'result', payload: { depth: { data, width: left.width, height: left.height } } },
+                { transfer: [data.buffer] }
+            );
+        }
+    } catch (e: any) {
+        self.postMessage({ type: 'error', payload: e.message });
+    }
+};